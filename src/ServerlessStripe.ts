@@ -10,7 +10,14 @@ import {
   StripeProductConfig,
   StripePriceConfig,
   StripePortalConfig,
+  StripeCouponConfig,
+  StripePromotionCodeConfig,
+  StripePaymentLinkConfig,
+  StripeFeatureConfig,
   SingleStripeConfig,
+  ApiKeyConfig,
+  StripeMode,
+  StripeModeConfig,
 } from "./types";
 import Logging from "./logging";
 import { Stripe } from "stripe";
@@ -18,9 +25,101 @@ import {
   SSMClient,
   PutParameterCommand,
   GetParameterCommand,
+  DeleteParameterCommand,
 } from "@aws-sdk/client-ssm";
-import { getAllPortalsFromStripe } from "./billingPortal";
-import { getAllProductsFromStripe } from "./products";
+import {
+  getAllPortalsFromStripe,
+  getPortalCatalogReferences,
+  resolvePortalConfiguration,
+} from "./billingPortal";
+import {
+  diffProduct,
+  getAllPricesFromStripe,
+  getAllProductsFromStripe,
+  getProductCreateParams,
+  getProductRestoreParams,
+  getProductUpdateParams,
+  PRODUCT_METADATA_KEYS,
+} from "./products";
+import {
+  createIdempotently,
+  createStripeClient,
+  getIdempotencyKey,
+  isMissing,
+  listAll,
+} from "./stripeClient";
+import { diffFields, FieldDiff, pickFields } from "./diff";
+import { formatAccount, PlanEntity, PlannedChange } from "./plan";
+import { DriftEntry } from "./drift";
+import { ImportMatch } from "./import";
+import { StripeManifest } from "./runtime/manifest";
+import { AccountSyncState, isMarkedInSyncState } from "./syncState";
+import { restoreSnapshots, StripeSnapshot } from "./rollback";
+import { isWebhookEventType } from "./eventTypes";
+import { isCountryCode, isCurrencyCode } from "./isoCodes";
+import {
+  describeApiKeyReference,
+  resolveApiKeyReference,
+  selectApiKeyReference,
+} from "./apiKey";
+import { getKeyMode, getLivemodeMode, selectMode } from "./mode";
+import { selectReplayTypes } from "./replay";
+import {
+  diffPaymentLink,
+  getAllPaymentLinksFromStripe,
+  getLinkPrices,
+  getPaymentLinkCreateParams,
+  getPaymentLinkRestoreParams,
+  getPaymentLinkUpdateParams,
+  getRedirectUrl,
+  PAYMENT_LINK_METADATA_KEYS,
+} from "./paymentLinks";
+import {
+  diffFeature,
+  EntitlementFeature,
+  FEATURE_METADATA_KEYS,
+  getAllFeaturesFromStripe,
+  getAttachedLookupKeys,
+  getEntitlements,
+  getProductFeaturesFromStripe,
+  ProductFeature,
+  withEntitlementSummaryEvent,
+} from "./entitlements";
+import {
+  MIGRATED_STATUSES,
+  PriceMigration,
+  ProrationBehavior,
+} from "./migratePrices";
+import { getWebhookRequest, signPayload } from "./trigger";
+import { WebhookResponse } from "./runtime/webhookHandler";
+import {
+  findMissingPermissions,
+  RequiredPermission,
+  StripeResource,
+} from "./preflight";
+import {
+  isUrlFromStackOutputs,
+  resolveWebhookUrl,
+  StackOutputs,
+} from "./webhookUrl";
+import {
+  WEBHOOK_ACCOUNTS_ENV_VARIABLE,
+  WebhookAccounts,
+} from "./runtime/webhookSecret";
+import {
+  diffCoupon,
+  diffPromotionCode,
+  getAllCouponsFromStripe,
+  getAllPromotionCodesFromStripe,
+  getCouponCreateParams,
+  getPromotionCodeCreateParams,
+} from "./coupons";
+import {
+  diffPrice,
+  diffUnmanagedPrice,
+  getPriceConfigIdentity,
+  getPriceCreateParams,
+} from "./prices";
 
 type DeploymentSummary = string[];
 
@@ -33,15 +132,50 @@ type MetadataBase = {
   stage: string;
   service: string;
   managedBy: string;
+  // set on objects of a connected account, see connectedAccountId
+  connectedAccount?: string;
 };
 type WebhookMetadata = {
   lambda: string;
+  // set on endpoints receiving the events of connected accounts
+  connect?: "true";
 } & MetadataBase;
 
 type ProductMetadata = {
   internalId: string;
 } & MetadataBase;
 
+type ArchivableEntity =
+  | "product"
+  | "price"
+  | "billingPortal"
+  | "coupon"
+  | "promotionCode"
+  | "paymentLink"
+  | "feature"
+  | "productFeature";
+
+type ArchivedEntity = {
+  entity: ArchivableEntity;
+  stripeId: string;
+  internalId: string;
+};
+
+type CatalogEntities = {
+  products: Stripe.Product[];
+  prices: Stripe.Price[];
+  portals: Stripe.BillingPortal.Configuration[];
+  coupons: Stripe.Coupon[];
+  promotionCodes: Stripe.PromotionCode[];
+  paymentLinks: Stripe.PaymentLink[];
+  features: EntitlementFeature[];
+  // attachments of features the products no longer grant
+  productFeatures: {
+    product: Stripe.Product;
+    productFeature: ProductFeature;
+  }[];
+};
+
 type StripeProductEntry = {
   product: Stripe.Product;
   prices: Stripe.Price[];
@@ -58,49 +192,293 @@ export class ServerlessStripe {
 
   // Stripe specific properties
   public accountId: string;
-  private apiKey: string;
+  // objects of this entry are managed on this connected account through the
+  // Stripe-Account header
+  public connectedAccountId: string | undefined;
+  private apiKey: ApiKeyConfig;
+  // read from the source of apiKey by resolveApiKey
+  private resolvedApiKey: string;
+  private modeConfig: StripeModeConfig | undefined;
+  private allowLiveChanges: boolean;
+  // the mode of the key, told by its prefix or by the objects Stripe returns
+  public mode: StripeMode | undefined;
+  // whether checkMode was asked to allow changes
+  private checkedWrite = false;
   private _stripe: Stripe;
+  private _ssmClient: SSMClient;
   public webhooks: WebhookConfig[];
   public products: StripeProductConfig[];
   public billingPortals: StripePortalConfig[];
+  public coupons: StripeCouponConfig[];
+  public promotionCodes: StripePromotionCodeConfig[];
+  public paymentLinks: StripePaymentLinkConfig[];
+  public features: StripeFeatureConfig[];
 
   private stripeProducts: StripeProductEntry[] = [];
+  // Stripe ids of prices by the id of their config
+  private stripePriceIds: { [priceId: string]: string } = {};
+  private stripeCoupons: Stripe.Coupon[] = [];
+  private stripePromotionCodes: Stripe.PromotionCode[] = [];
+  private stripePaymentLinks: Stripe.PaymentLink[] = [];
+  // Stripe ids of features by lookup_key
+  private stripeFeatureIds: { [lookupKey: string]: string } = {};
+  // what the packaging of this deploy did, see restoreSyncState
+  private syncState: AccountSyncState | undefined;
+  // the objects changed by this deploy as they were before, see rollback
+  private snapshots: StripeSnapshot[] = [];
+
+  // When set, Stripe and SSM are only read and the changes are collected
+  // into plannedChanges instead of being applied
+  public dryRun: boolean;
+  public plannedChanges: PlannedChange[] = [];
+  private importMatches: ImportMatch[] = [];
+  private driftEntries: DriftEntry[] = [];
 
   private customDomain: CustomDomain;
+  // path of this entry in serverless.yml, used in config errors
+  private configPath: string;
 
   constructor(
     stripeConfiguration: SingleStripeConfig,
-    serverless: ServerlessInstance
+    serverless: ServerlessInstance,
+    configIndex = 0
   ) {
     this.serverless = serverless;
-    this.webhooks = stripeConfiguration.webhooks;
+    this.configPath = `custom.stripe[${configIndex}]`;
+    // entries of connected accounts can not have webhooks of their own
+    const webhooks =
+      stripeConfiguration.connectedAccountId !== undefined
+        ? stripeConfiguration.webhooks ?? []
+        : stripeConfiguration.webhooks;
+    this.webhooks = webhooks && webhooks.map(withEntitlementSummaryEvent);
     this.products = stripeConfiguration.products ?? [];
     this.billingPortals = stripeConfiguration.billingPortals ?? [];
+    this.coupons = stripeConfiguration.coupons ?? [];
+    this.promotionCodes = stripeConfiguration.promotionCodes ?? [];
+    this.paymentLinks = stripeConfiguration.paymentLinks ?? [];
+    this.features = stripeConfiguration.features ?? [];
     this.apiKey = stripeConfiguration.apiKey;
+    this.modeConfig = stripeConfiguration.mode;
+    this.allowLiveChanges = Boolean(stripeConfiguration.allowLiveChanges);
     this.accountId = stripeConfiguration.accountId;
+    this.connectedAccountId = stripeConfiguration.connectedAccountId;
 
     this.stage = this.serverless.processedInput.options.stage;
     this.region = this.serverless.service.provider.region as string;
+    this.dryRun = Boolean(
+      this.serverless.processedInput.options["stripe-dry-run"]
+    );
   }
 
   private getStripe() {
+    if (!this.resolvedApiKey) {
+      throw new Error(
+        `${Globals.pluginName}: The API key of account ${this.getAccountLabel()} has not been resolved`
+      );
+    }
     if (!this._stripe) {
-      this._stripe = new Stripe(this.apiKey, {
-        apiVersion: "2023-10-16",
-      });
+      this._stripe = createStripeClient(
+        this.resolvedApiKey,
+        this.connectedAccountId
+      );
     }
     return this._stripe;
   }
 
+  /**
+   * Read the API key of the stage from the source apiKey points to
+   */
+  public async resolveApiKey(): Promise<void> {
+    if (this.resolvedApiKey) {
+      return;
+    }
+    const reference = selectApiKeyReference(this.apiKey, this.stage);
+    if (!reference) {
+      throw this.configError(".apiKey", `no API key for stage ${this.stage}`);
+    }
+    const apiKey = await resolveApiKeyReference(reference, {
+      getSsmParameter: (name) => this.getSsmParameter(name),
+      getSecret: (secretId) => this.getSecret(secretId),
+    });
+    if (!apiKey) {
+      throw this.configError(
+        ".apiKey",
+        `${describeApiKeyReference(reference)} is not set`
+      );
+    }
+    this.resolvedApiKey = apiKey;
+    this.mode = getKeyMode(apiKey);
+  }
+
+  /**
+   * Refuse a key of another mode than the stage expects, and changes to
+   * live mode objects that have not been confirmed
+   *
+   * @param write whether the command is going to change Stripe objects
+   */
+  public checkMode(write: boolean) {
+    this.checkedWrite = write;
+    const expected = selectMode(this.modeConfig, this.stage);
+    if (expected && this.mode && this.mode !== expected) {
+      throw new Error(
+        `${Globals.pluginName}: Stage ${this.stage} expects ${expected} mode, but account ${this.getAccountLabel()} is used in ${this.mode} mode`
+      );
+    }
+    if (
+      write &&
+      this.mode === "live" &&
+      !this.allowLiveChanges &&
+      !this.serverless.processedInput.options["stripe-confirm-live"]
+    ) {
+      throw new Error(
+        `${Globals.pluginName}: Account ${this.getAccountLabel()} is used in live mode, confirm changes to live mode objects with --stripe-confirm-live or allowLiveChanges`
+      );
+    }
+  }
+
+  /**
+   * Check the mode of the objects Stripe returns, which also covers keys
+   * whose mode can not be told from their prefix
+   */
+  private checkLivemode(objects: { livemode: boolean }[]) {
+    for (const object of objects) {
+      const mode = getLivemodeMode(object.livemode);
+      if (!this.mode) {
+        this.mode = mode;
+        this.checkMode(this.checkedWrite);
+      } else if (mode !== this.mode) {
+        throw new Error(
+          `${Globals.pluginName}: Stripe returned ${mode} mode objects to the ${this.mode} mode key of account ${this.getAccountLabel()}`
+        );
+      }
+    }
+  }
+
+  private async getSecret(secretId: string): Promise<string | undefined> {
+    const provider = this.serverless.getProvider("aws");
+    try {
+      const response = await provider.request<{ SecretString?: string }>(
+        "SecretsManager",
+        "getSecretValue",
+        { SecretId: secretId }
+      );
+      return response.SecretString;
+    } catch (e) {
+      if (e.providerError?.code === "ResourceNotFoundException") {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Stripe permissions the config needs. Everything is read to find the
+   * objects owned by the stage, and written only when it is configured.
+   */
+  private getRequiredPermissions(write: boolean): RequiredPermission[] {
+    const resources: [StripeResource, boolean][] = [
+      ["Webhook Endpoints", this.webhooks.length > 0],
+      ["Products", this.products.length > 0],
+      ["Prices", this.products.some((product) => product.prices.length > 0)],
+      ["Customer portal", this.billingPortals.length > 0],
+      ["Coupons", this.coupons.length > 0],
+      ["Promotion codes", this.promotionCodes.length > 0],
+      ["Payment Links", this.paymentLinks.length > 0],
+      [
+        "Entitlements",
+        this.features.length > 0 ||
+          this.products.some((product) => product.entitlements?.length > 0),
+      ],
+    ];
+    const permissions: RequiredPermission[] = [];
+    for (const [resource, isConfigured] of resources) {
+      permissions.push({ resource, access: "Read" });
+      if (write && isConfigured) {
+        permissions.push({ resource, access: "Write" });
+      }
+    }
+    return permissions;
+  }
+
+  /**
+   * Check the key against the permissions the config needs without changing
+   * anything in Stripe
+   *
+   * @param write whether the command is going to change Stripe objects
+   * @param required the permissions to check, by default those of the config
+   */
+  public async findMissingPermissions(
+    write: boolean,
+    required = this.getRequiredPermissions(write)
+  ): Promise<RequiredPermission[]> {
+    await this.resolveApiKey();
+    return await findMissingPermissions(this.getStripe(), required);
+  }
+
+  /**
+   * Idempotency key of a create, stable across re-runs of the same deploy
+   */
+  private getIdempotencyKey(
+    entity: ArchivableEntity | "webhook",
+    internalId: string,
+    params: object,
+    ...discriminators: string[]
+  ): string {
+    return getIdempotencyKey(
+      this.accountId,
+      this.connectedAccountId,
+      this.serverless.service.service,
+      this.stage,
+      entity,
+      internalId,
+      params,
+      ...discriminators
+    );
+  }
+
+  private getOwnershipMetadata(): MetadataBase {
+    const metadata: MetadataBase = {
+      stage: this.stage,
+      service: this.serverless.service.service,
+      managedBy: Globals.pluginName,
+    };
+    if (this.connectedAccountId) {
+      metadata.connectedAccount = this.connectedAccountId;
+    }
+    return metadata;
+  }
+
+  /**
+   * Label of the account in summaries, telling the objects of a connected
+   * account from the objects of the platform
+   */
+  public getAccountLabel(): string {
+    return formatAccount(this.accountId, this.connectedAccountId);
+  }
+
+  private async isWebhookStale(
+    webhook: Stripe.WebhookEndpoint
+  ): Promise<boolean> {
+    let toBeDeleted = false;
+    const missing = await isMissing(async () => {
+      const current = await this.getStripe().webhookEndpoints.retrieve(
+        webhook.id
+      );
+      toBeDeleted = Boolean(current.metadata.toBeDeleted);
+      return current;
+    });
+    return missing || toBeDeleted;
+  }
+
   /**
    * Validate if the plugin config exists
    */
   public validateConfigExists(): void {
     if (!this.apiKey) {
-      throw new Error(`${Globals.pluginName}: Stripe API key is required.`);
+      throw this.configError(".apiKey", "Stripe API key is required");
     }
     if (!this.accountId) {
-      throw new Error(`${Globals.pluginName}: Stripe account ID is required.`);
+      throw this.configError(".accountId", "Stripe account ID is required");
     }
     if (!this.stage) {
       throw new Error(`${Globals.pluginName}: Stage is required.`);
@@ -124,166 +502,685 @@ export class ServerlessStripe {
     this.validateWebhookConfigs();
     this.validateProductAndPriceConfigs();
     this.validatePortalConfigs();
+    this.validateCouponAndPromotionCodeConfigs();
+    this.validatePaymentLinkConfigs();
+    this.validateFeatureConfigs();
+  }
+
+  /**
+   * @param path path below the config entry of this account, e.g.
+   * `.products[0].prices[2].currency`
+   */
+  private configError(path: string, message: string): Error {
+    return new Error(
+      `${Globals.pluginName}: Invalid configuration at '${this.configPath}${path}': ${message}`
+    );
+  }
+
+  /**
+   * Throw for the second entry with the same key
+   */
+  private validateUnique<T>(
+    entries: T[],
+    getKey: (entry: T) => string | undefined,
+    getPath: (index: number) => string,
+    message: string
+  ) {
+    const keys = entries.map(getKey);
+    keys.forEach((key, index) => {
+      if (key !== undefined && keys.indexOf(key) !== index) {
+        throw this.configError(
+          getPath(index),
+          `${message}, ${key} is repeated`
+        );
+      }
+    });
+  }
+
+  private validateCurrency(path: string, currency: string | undefined) {
+    if (currency !== undefined && !isCurrencyCode(currency)) {
+      throw this.configError(
+        path,
+        `${currency} is not an ISO 4217 currency code`
+      );
+    }
+  }
+
+  private validateCouponAndPromotionCodeConfigs() {
+    // internal id must match regex [a-zA-Z]([a-zA-Z0-9_])+]
+    const regex = /^[a-zA-Z]([a-zA-Z0-9_])+$/;
+    this.coupons.forEach((coupon, index) => {
+      const path = `.coupons[${index}]`;
+      if (!coupon.internalId) {
+        throw this.configError(`${path}.internalId`, "internalId is required");
+      }
+      if (!regex.test(coupon.internalId)) {
+        throw this.configError(
+          `${path}.internalId`,
+          `${coupon.internalId} does not match regex ${regex.toString()}`
+        );
+      }
+      if (!coupon.duration) {
+        throw this.configError(`${path}.duration`, "duration is required");
+      }
+      if (coupon.duration === "repeating" && !coupon.duration_in_months) {
+        throw this.configError(
+          `${path}.duration_in_months`,
+          "duration_in_months is required with a repeating duration"
+        );
+      }
+      const hasPercentOff = typeof coupon.percent_off !== "undefined";
+      const hasAmountOff = typeof coupon.amount_off !== "undefined";
+      if (hasPercentOff === hasAmountOff) {
+        throw this.configError(
+          path,
+          "either percent_off or amount_off is required"
+        );
+      }
+      if (hasAmountOff && !coupon.currency) {
+        throw this.configError(
+          `${path}.currency`,
+          "currency is required with amount_off"
+        );
+      }
+      this.validateCurrency(`${path}.currency`, coupon.currency);
+      (coupon.applies_to?.products ?? []).forEach((productId, i) => {
+        if (!this.products.some((p) => p.internal.id === productId)) {
+          throw this.configError(
+            `${path}.applies_to.products[${i}]`,
+            `unknown product ${productId}`
+          );
+        }
+      });
+    });
+    this.promotionCodes.forEach((promotionCode, index) => {
+      const path = `.promotionCodes[${index}]`;
+      if (!promotionCode.internalId) {
+        throw this.configError(`${path}.internalId`, "internalId is required");
+      }
+      if (!regex.test(promotionCode.internalId)) {
+        throw this.configError(
+          `${path}.internalId`,
+          `${promotionCode.internalId} does not match regex ${regex.toString()}`
+        );
+      }
+      if (!promotionCode.code) {
+        throw this.configError(`${path}.code`, "code is required");
+      }
+      if (!this.coupons.some((c) => c.internalId === promotionCode.coupon)) {
+        throw this.configError(
+          `${path}.coupon`,
+          `unknown coupon ${promotionCode.coupon}`
+        );
+      }
+      this.validateCurrency(
+        `${path}.restrictions.minimum_amount_currency`,
+        promotionCode.restrictions?.minimum_amount_currency
+      );
+    });
+    this.validateUnique(
+      this.coupons,
+      (coupon) => coupon.internalId,
+      (index) => `.coupons[${index}].internalId`,
+      "Coupon internalIds must be unique"
+    );
+    this.validateUnique(
+      this.promotionCodes,
+      (promotionCode) => promotionCode.internalId,
+      (index) => `.promotionCodes[${index}].internalId`,
+      "Promotion code internalIds must be unique"
+    );
+    this.validateUnique(
+      this.promotionCodes,
+      (promotionCode) => promotionCode.code.toUpperCase(),
+      (index) => `.promotionCodes[${index}].code`,
+      "Promotion codes must be unique"
+    );
+  }
+
+  private validatePaymentLinkConfigs() {
+    const priceIds = this.products
+      .map((product) => product.prices.map((price) => price.id))
+      .reduce((all, ids) => [...all, ...ids], []);
+    this.paymentLinks.forEach((link, index) => {
+      const path = `.paymentLinks[${index}]`;
+      if (!link.internalId) {
+        throw this.configError(`${path}.internalId`, "internalId is required");
+      }
+      // internal id must match regex [a-zA-Z]([a-zA-Z0-9_])+]
+      const regex = /^[a-zA-Z]([a-zA-Z0-9_])+$/;
+      if (!regex.test(link.internalId)) {
+        throw this.configError(
+          `${path}.internalId`,
+          `${link.internalId} does not match regex ${regex.toString()}`
+        );
+      }
+      if (!link.line_items || link.line_items.length === 0) {
+        throw this.configError(
+          `${path}.line_items`,
+          "line_items must not be empty"
+        );
+      }
+      link.line_items.forEach((item, i) => {
+        const itemPath = `${path}.line_items[${i}]`;
+        if (priceIds.indexOf(item.price) === -1) {
+          throw this.configError(
+            `${itemPath}.price`,
+            `unknown price ${item.price}`
+          );
+        }
+        const quantity = item.quantity ?? 1;
+        const {
+          enabled,
+          minimum = 0,
+          maximum = 99,
+        } = item.adjustable_quantity ?? {};
+        if (
+          enabled &&
+          (minimum > maximum || quantity < minimum || quantity > maximum)
+        ) {
+          throw this.configError(
+            `${itemPath}.adjustable_quantity`,
+            `quantity ${quantity} must be between minimum ${minimum} and maximum ${maximum}`
+          );
+        }
+      });
+      (link.allowed_countries ?? []).forEach((country, i) => {
+        if (!isCountryCode(country)) {
+          throw this.configError(
+            `${path}.allowed_countries[${i}]`,
+            `${country} is not an ISO 3166-1 alpha-2 country code`
+          );
+        }
+      });
+      if (link.redirect_path && !this.customDomain) {
+        throw this.configError(
+          `${path}.redirect_path`,
+          "redirect_path requires customDomain"
+        );
+      }
+      Object.keys(link.metadata ?? {}).forEach((key) => {
+        if (PAYMENT_LINK_METADATA_KEYS.indexOf(key) !== -1) {
+          throw this.configError(
+            `${path}.metadata.${key}`,
+            `${key} is set by ${Globals.pluginName}`
+          );
+        }
+      });
+    });
+    this.validateUnique(
+      this.paymentLinks,
+      (link) => link.internalId,
+      (index) => `.paymentLinks[${index}].internalId`,
+      "Payment link ids must be unique"
+    );
+  }
+
+  private validateFeatureConfigs() {
+    this.features.forEach((feature, index) => {
+      const path = `.features[${index}]`;
+      if (!feature.lookup_key) {
+        throw this.configError(`${path}.lookup_key`, "lookup_key is required");
+      }
+      if (!feature.name) {
+        throw this.configError(`${path}.name`, "name is required");
+      }
+      Object.keys(feature.metadata ?? {}).forEach((key) => {
+        if (FEATURE_METADATA_KEYS.indexOf(key) !== -1) {
+          throw this.configError(
+            `${path}.metadata.${key}`,
+            `${key} is set by ${Globals.pluginName}`
+          );
+        }
+      });
+    });
+    this.validateUnique(
+      this.features,
+      (feature) => feature.lookup_key,
+      (index) => `.features[${index}].lookup_key`,
+      "Feature lookup_keys must be unique"
+    );
+    this.products.forEach((product, index) => {
+      const entitlements = product.entitlements ?? [];
+      entitlements.forEach((lookupKey, i) => {
+        if (
+          !this.features.some((feature) => feature.lookup_key === lookupKey)
+        ) {
+          throw this.configError(
+            `.products[${index}].entitlements[${i}]`,
+            `unknown feature ${lookupKey}`
+          );
+        }
+      });
+      this.validateUnique(
+        entitlements,
+        (lookupKey) => lookupKey,
+        (i) => `.products[${index}].entitlements[${i}]`,
+        "Features of a product must be unique"
+      );
+    });
   }
 
   private validatePortalConfigs() {
-    for (const portal of this.billingPortals) {
+    this.billingPortals.forEach((portal, index) => {
+      const path = `.billingPortals[${index}]`;
       if (!portal.envVariableName) {
-        throw new Error("Portal envVariableName is required");
+        throw this.configError(
+          `${path}.envVariableName`,
+          "envVariableName is required"
+        );
       }
       if (!portal.configuration) {
-        throw new Error("Portal configuration is required");
+        throw this.configError(
+          `${path}.configuration`,
+          "configuration is required"
+        );
       }
       if (!portal.internalId) {
-        throw new Error("Portal internalId is required");
+        throw this.configError(`${path}.internalId`, "internalId is required");
       }
       // env var must match regex [a-zA-Z]([a-zA-Z0-9_])+]
       const regex = /^[a-zA-Z]([a-zA-Z0-9_])+$/;
       if (!regex.test(portal.envVariableName)) {
-        throw new Error(
-          `Portal envVariableName ${
-            portal.envVariableName
-          } does not match regex ${regex.toString()}`
+        throw this.configError(
+          `${path}.envVariableName`,
+          `${portal.envVariableName} does not match regex ${regex.toString()}`
         );
       }
-    }
-    const portalIds = this.billingPortals.map((portal) => portal.internalId);
-    const uniquePortalIds = [...new Set(portalIds)];
-    if (portalIds.length !== uniquePortalIds.length) {
-      throw new Error("Portal ids must be unique");
-    }
-    const envVars = this.billingPortals.map((portal) => portal.envVariableName);
-    const uniqueEnvVars = [...new Set(envVars)];
-    if (envVars.length !== uniqueEnvVars.length) {
-      throw new Error("Portal envVariableNames must be unique");
-    }
+    });
+    this.billingPortals.forEach((portal, index) => {
+      getPortalCatalogReferences(portal.configuration).forEach(
+        (reference, i) => {
+          const path = `.billingPortals[${index}].configuration.features.subscription_update.products[${i}]`;
+          const product = this.products.find(
+            (p) => p.internal.id === reference.product
+          );
+          if (!product && !/^prod_/.test(reference.product)) {
+            throw this.configError(
+              `${path}.product`,
+              `unknown product ${reference.product}`
+            );
+          }
+          reference.prices.forEach((priceId, j) => {
+            const isConfigured = this.products.some((p) =>
+              p.prices.some((price) => price.id === priceId)
+            );
+            if (!isConfigured && !/^price_/.test(priceId)) {
+              throw this.configError(
+                `${path}.prices[${j}]`,
+                `unknown price ${priceId}`
+              );
+            }
+            if (
+              isConfigured &&
+              (!product ||
+                !product.prices.some((price) => price.id === priceId))
+            ) {
+              throw this.configError(
+                `${path}.prices[${j}]`,
+                `price ${priceId} is not a price of product ${reference.product}`
+              );
+            }
+          });
+        }
+      );
+    });
+    this.validateUnique(
+      this.billingPortals,
+      (portal) => portal.internalId,
+      (index) => `.billingPortals[${index}].internalId`,
+      "Portal ids must be unique"
+    );
   }
 
   private validateWebhookConfigs() {
+    // serverless-domain-manager is optional, webhooks can also use explicit
+    // URLs, function URLs or the default API Gateway URL
     this.customDomain = this.serverless.service.custom.customDomain;
-    if (!this.customDomain) {
-      throw new Error(
-        `${Globals.pluginName}: Serverless Domain Manager required`
-      );
-    }
-
-    if (!this.customDomain.domainName) {
+    if (this.customDomain && !this.customDomain.domainName) {
       throw new Error(
         `${Globals.pluginName}: 'domainName' is required in 'customDomain' config`
       );
     }
 
-    if (!this.customDomain.basePath) {
-      throw new Error(
-        `${Globals.pluginName}: 'basePath' is required in 'customDomain' config`
-      );
-    }
-
     if (!this.webhooks) {
-      throw new Error("Stripe webhooks not found");
+      throw this.configError(".webhooks", "Stripe webhooks not found");
     }
 
-    // throw if function is listed twice
-    const functionNames = this.webhooks.map((webhook) => webhook.functionName);
-    const uniqueFunctionNames = [...new Set(functionNames)];
-    if (functionNames.length !== uniqueFunctionNames.length) {
-      throw new Error("Function names must be unique");
+    if (this.connectedAccountId !== undefined) {
+      if (!/^acct_/.test(this.connectedAccountId)) {
+        throw this.configError(
+          ".connectedAccountId",
+          "connectedAccountId must be a Stripe account id starting with acct_"
+        );
+      }
+      // events of connected accounts are received by a connect webhook of
+      // the platform
+      if (this.webhooks.length > 0) {
+        throw this.configError(
+          ".webhooks",
+          `Webhooks of connected account ${this.connectedAccountId} must be configured with connect: true in the entry of account ${this.accountId}`
+        );
+      }
     }
 
-    // verify getSsmParameterName does not throw error
-    for (const webhook of this.webhooks) {
+    this.validateUnique(
+      this.webhooks,
+      (webhook) => webhook.functionName,
+      (index) => `.webhooks[${index}].functionName`,
+      "Function names must be unique"
+    );
+
+    this.webhooks.forEach((webhook, index) => {
+      const path = `.webhooks[${index}]`;
+      if (webhook.url && !/^https:\/\//.test(webhook.url)) {
+        throw this.configError(`${path}.url`, "url must start with https://");
+      }
+      if (
+        webhook.secretSource &&
+        webhook.secretSource !== "environment" &&
+        webhook.secretSource !== "ssm"
+      ) {
+        throw this.configError(
+          `${path}.secretSource`,
+          "secretSource must be 'environment' or 'ssm'"
+        );
+      }
+      (webhook.events || []).forEach((event, i) => {
+        if (!isWebhookEventType(event)) {
+          throw this.configError(
+            `${path}.events[${i}]`,
+            `${event} is not * or a Stripe event type such as invoice.paid`
+          );
+        }
+      });
+      // verify getSsmParameterName does not throw error
       this.getSsmParameterName(this.getWebhookMetadata(webhook.functionName));
-    }
+    });
   }
 
   private validateProductAndPriceConfigs() {
-    for (const product of this.products) {
+    this.products.forEach((product, index) => {
+      const path = `.products[${index}]`;
       if (!product.name) {
-        throw new Error("Product name is required");
+        throw this.configError(`${path}.name`, "Product name is required");
       }
       if (!product.internal) {
-        throw new Error("Product internal is required");
+        throw this.configError(`${path}.internal`, "internal is required");
       }
       if (!product.internal.id) {
-        throw new Error("Product internal.id is required");
+        throw this.configError(
+          `${path}.internal.id`,
+          "internal.id is required"
+        );
       }
       if (!product.internal.description) {
-        throw new Error("Product internal.description is required");
+        throw this.configError(
+          `${path}.internal.description`,
+          "internal.description is required"
+        );
       }
 
       // internal id must match regex [a-zA-Z]([a-zA-Z0-9_])+]
       const regex = /^[a-zA-Z]([a-zA-Z0-9_])+$/;
       if (!regex.test(product.internal.id)) {
-        throw new Error(
-          `Product internal.id ${
-            product.internal.id
-          } does not match regex ${regex.toString()}`
+        throw this.configError(
+          `${path}.internal.id`,
+          `${product.internal.id} does not match regex ${regex.toString()}`
         );
       }
-      for (const price of product.prices) {
-        if (!price.id) {
-          throw new Error("Price id is required");
-        }
-        if (!price.price) {
-          throw new Error("Price price is required");
-        }
-        if (!price.currency) {
-          throw new Error("Price currency is required");
-        }
-        if (!price.countryCode) {
-          throw new Error("Price countryCode is required");
+      (product.prices || []).forEach((price, i) =>
+        this.validatePriceConfig(price, `${path}.prices[${i}]`)
+      );
+      Object.keys(product.metadata ?? {}).forEach((key) => {
+        if (PRODUCT_METADATA_KEYS.indexOf(key) !== -1) {
+          throw this.configError(
+            `${path}.metadata.${key}`,
+            `${key} is set by ${Globals.pluginName}`
+          );
         }
+      });
+      if (
+        product.default_price &&
+        !(product.prices || []).some((p) => p.id === product.default_price)
+      ) {
+        throw this.configError(
+          `${path}.default_price`,
+          `${product.default_price} is not a price of ${product.internal.id}`
+        );
       }
-    }
+    });
     // dont allow duplicate internal ids
-    const internalIds = this.products.map((product) => product.internal.id);
-    const uniqueInternalIds = [...new Set(internalIds)];
-    if (internalIds.length !== uniqueInternalIds.length) {
-      throw new Error("Product internal ids must be unique");
-    }
-  }
-
-  private isStripeEntityManagedByThisStack(
-    webhook: Pick<Stripe.WebhookEndpoint, "metadata">
-  ): boolean {
-    const metadata = webhook.metadata || {};
-    return (
-      metadata.managedBy === Globals.pluginName &&
-      metadata.service === this.serverless.service.service &&
-      metadata.stage === this.stage
-    );
-  }
-
-  private async getWebhooksFromStripe(): Promise<Stripe.WebhookEndpoint[]> {
-    const webhooks = await this.getStripe().webhookEndpoints.list();
-    return webhooks.data.filter((i) =>
-      this.isStripeEntityManagedByThisStack(i)
+    this.validateUnique(
+      this.products,
+      (product) => product.internal.id,
+      (index) => `.products[${index}].internal.id`,
+      "Product internal ids must be unique"
     );
-  }
-
-  private async getProductsFromStripe(): Promise<Stripe.Product[]> {
-    const stripe = this.getStripe();
-    const products = await getAllProductsFromStripe(stripe);
-    return products.filter((i) => this.isStripeEntityManagedByThisStack(i));
-  }
-
-  private async getPortalsFromStripe(): Promise<
-    Stripe.BillingPortal.Configuration[]
-  > {
-    const stripe = this.getStripe();
-    const portalConfigurations = await getAllPortalsFromStripe(stripe);
-    return portalConfigurations.filter((i) =>
-      this.isStripeEntityManagedByThisStack(i)
+    const prices = this.products
+      .map((product, index) =>
+        product.prices.map((price, i) => ({
+          price,
+          path: `.products[${index}].prices[${i}]`,
+        }))
+      )
+      .reduce((all, entries) => [...all, ...entries], []);
+    this.validateUnique(
+      prices,
+      (entry) => entry.price.lookup_key,
+      (index) => `${prices[index].path}.lookup_key`,
+      "Price lookup_keys must be unique"
     );
   }
 
-  public async removeStripeWebhooks(): Promise<DeploymentSummary> {
-    const webhooksBefore = await this.getWebhooksFromStripe();
-    Logging.logInfo(`Removing ${webhooksBefore.length} webhooks`);
-
-    // delete webhooks that are not in config
-    const webhooksDeleted: DeletedWebhook[] = [];
-    for (const webhook of webhooksBefore) {
+  private validatePriceConfig(price: StripePriceConfig, path: string) {
+    if (!price.id) {
+      throw this.configError(`${path}.id`, "Price id is required");
+    }
+    if (!price.currency) {
+      throw this.configError(`${path}.currency`, "currency is required");
+    }
+    this.validateCurrency(`${path}.currency`, price.currency);
+    if (!price.countryCode) {
+      throw this.configError(`${path}.countryCode`, "countryCode is required");
+    }
+    if (!isCountryCode(price.countryCode)) {
+      throw this.configError(
+        `${path}.countryCode`,
+        `${price.countryCode} is not an ISO 3166-1 alpha-2 country code`
+      );
+    }
+    if (price.tiers) {
+      if (typeof price.price !== "undefined") {
+        throw this.configError(path, "cannot have both price and tiers");
+      }
+      if (!price.tiers_mode) {
+        throw this.configError(
+          `${path}.tiers_mode`,
+          "tiers_mode is required with tiers"
+        );
+      }
+      if (!price.interval) {
+        throw this.configError(`${path}.interval`, "tiers require an interval");
+      }
+      if (price.transform_quantity) {
+        throw this.configError(
+          path,
+          "cannot have both tiers and transform_quantity"
+        );
+      }
+      if (price.tiers.length === 0) {
+        throw this.configError(`${path}.tiers`, "tiers must not be empty");
+      }
+      if (price.tiers[price.tiers.length - 1].up_to !== "inf") {
+        throw this.configError(
+          `${path}.tiers[${price.tiers.length - 1}].up_to`,
+          "last tier up_to must be 'inf'"
+        );
+      }
+    } else {
+      if (typeof price.price !== "number" || price.price < 0) {
+        throw this.configError(`${path}.price`, "Price price is required");
+      }
+      if (price.tiers_mode) {
+        throw this.configError(
+          `${path}.tiers_mode`,
+          "tiers_mode requires tiers"
+        );
+      }
+    }
+    const intervals = ["day", "week", "month", "year"];
+    if (price.interval && intervals.indexOf(price.interval) === -1) {
+      throw this.configError(
+        `${path}.interval`,
+        `interval must be one of ${intervals.join(", ")}`
+      );
+    }
+    if (!price.interval) {
+      if (price.interval_count) {
+        throw this.configError(
+          `${path}.interval_count`,
+          "interval_count requires interval"
+        );
+      }
+      if (price.usage_type) {
+        throw this.configError(
+          `${path}.usage_type`,
+          "usage_type requires interval"
+        );
+      }
+    }
+  }
+
+  /**
+   * Stripe ids of the products, prices and portals of this entry, read from
+   * the provider environment variables set while syncing
+   */
+  public getManifest(): Omit<StripeManifest, "stage"> {
+    const environment = this.serverless.service.provider.environment;
+    const manifest: Omit<StripeManifest, "stage"> = {
+      products: {},
+      prices: {},
+      portals: {},
+    };
+    for (const productConfig of this.products) {
+      const internalId = productConfig.internal.id;
+      manifest.products[internalId] = {
+        stripeId: environment[internalId] as string,
+        accountId: this.accountId,
+      };
+      for (const priceConfig of productConfig.prices) {
+        manifest.prices[priceConfig.id] = {
+          stripeId: environment[priceConfig.id] as string,
+          accountId: this.accountId,
+          product: internalId,
+          currency: priceConfig.currency.toLowerCase(),
+          interval: priceConfig.interval,
+          country: priceConfig.countryCode,
+        };
+      }
+    }
+    for (const portalConfig of this.billingPortals) {
+      manifest.portals[portalConfig.internalId] = {
+        stripeId: environment[portalConfig.envVariableName] as string,
+        accountId: this.accountId,
+      };
+    }
+    return manifest;
+  }
+
+  /**
+   * Names of the provider environment variables this entry sets, with the
+   * config path that sets them
+   */
+  public getEnvironmentVariables(): { name: string; path: string }[] {
+    const path = (suffix: string) => `${this.configPath}${suffix}`;
+    return [
+      ...this.products.map((product, index) => ({
+        name: product.internal.id,
+        path: path(`.products[${index}].internal.id`),
+      })),
+      ...this.products
+        .map((product, index) =>
+          product.prices.map((price, i) => ({
+            name: price.id,
+            path: path(`.products[${index}].prices[${i}].id`),
+          }))
+        )
+        .reduce((all, variables) => [...all, ...variables], []),
+      ...this.billingPortals.map((portal, index) => ({
+        name: portal.envVariableName,
+        path: path(`.billingPortals[${index}].envVariableName`),
+      })),
+      ...this.coupons.map((coupon, index) => ({
+        name: coupon.internalId,
+        path: path(`.coupons[${index}].internalId`),
+      })),
+      ...this.promotionCodes.map((promotionCode, index) => ({
+        name: promotionCode.internalId,
+        path: path(`.promotionCodes[${index}].internalId`),
+      })),
+      ...this.paymentLinks
+        .map((link, index) => [
+          {
+            name: link.internalId,
+            path: path(`.paymentLinks[${index}].internalId`),
+          },
+          {
+            name: `${link.internalId}Url`,
+            path: path(`.paymentLinks[${index}].internalId`),
+          },
+        ])
+        .reduce((all, variables) => [...all, ...variables], []),
+    ];
+  }
+
+  private isStripeEntityManagedByThisStack(
+    webhook: Pick<Stripe.WebhookEndpoint, "metadata">
+  ): boolean {
+    const metadata = webhook.metadata || {};
+    return (
+      metadata.managedBy === Globals.pluginName &&
+      metadata.service === this.serverless.service.service &&
+      metadata.stage === this.stage &&
+      (metadata.connectedAccount || undefined) === this.connectedAccountId
+    );
+  }
+
+  private async getWebhooksFromStripe(): Promise<Stripe.WebhookEndpoint[]> {
+    const stripe = this.getStripe();
+    const webhooks = await listAll((params) =>
+      stripe.webhookEndpoints.list(params)
+    );
+    this.checkLivemode(webhooks);
+    return webhooks.filter((i) => this.isStripeEntityManagedByThisStack(i));
+  }
+
+  private async getProductsFromStripe(): Promise<Stripe.Product[]> {
+    const stripe = this.getStripe();
+    const products = await getAllProductsFromStripe(stripe);
+    this.checkLivemode(products);
+    return products.filter((i) => this.isStripeEntityManagedByThisStack(i));
+  }
+
+  private async getPortalsFromStripe(): Promise<
+    Stripe.BillingPortal.Configuration[]
+  > {
+    const stripe = this.getStripe();
+    const portalConfigurations = await getAllPortalsFromStripe(stripe);
+    this.checkLivemode(portalConfigurations);
+    return portalConfigurations.filter((i) =>
+      this.isStripeEntityManagedByThisStack(i)
+    );
+  }
+
+  public async removeStripeResources(): Promise<DeploymentSummary> {
+    const webhooksBefore = await this.getWebhooksFromStripe();
+    Logging.logInfo(`Removing ${webhooksBefore.length} webhooks`);
+
+    // delete webhooks that are not in config
+    const webhooksDeleted: DeletedWebhook[] = [];
+    for (const webhook of webhooksBefore) {
       const deletedWebhook = await this.getStripe().webhookEndpoints.del(
         webhook.id
       );
@@ -295,18 +1192,30 @@ export class ServerlessStripe {
       });
     }
 
-    return this.deploymentSummary([], webhooksDeleted);
+    const archived = await this.archiveAllCatalog();
+
+    return this.deploymentSummary([], webhooksDeleted, archived);
   }
-  public async removeWebhooksNotInConfig(): Promise<DeploymentSummary> {
+
+  public async removeResourcesNotInConfig(): Promise<DeploymentSummary> {
+    if (!this.dryRun) {
+      await this.syncWebhooksFromStackOutputs();
+    }
     const allWebhooks = await this.getWebhooksFromStripe();
     const activeWebhooks = allWebhooks.filter((w) => !w.metadata.toBeDeleted);
 
     const webhooksMarkedForDeletion = allWebhooks.filter(
-      (w) => !activeWebhooks.some((wc) => wc.id === w.id)
+      (w) =>
+        !activeWebhooks.some((wc) => wc.id === w.id) &&
+        this.isMarkedForPruning(w.id)
     );
     Logging.logInfo(
       `Found ${webhooksMarkedForDeletion.length} webhooks that are marked for deletion`
     );
+    if (this.dryRun) {
+      Logging.logInfo("Dry run, not deleting webhooks or archiving products");
+      return this.deploymentSummary(activeWebhooks, [], []);
+    }
 
     // delete webhooks that are not in config
     const webhooksDeleted: DeletedWebhook[] = [];
@@ -320,33 +1229,163 @@ export class ServerlessStripe {
         url: webhook.url,
         lambda: webhook.metadata.lambda,
       });
+      // the secret of an endpoint replaced by rotate-secret
+      await this.deleteSsmParameter(
+        this.getPreviousSsmParameterName(
+          this.getWebhookMetadata(webhook.metadata.lambda)
+        )
+      );
+      // the secret of an endpoint that no active endpoint took over, e.g.
+      // after connect was changed or the webhook was removed from config
+      const parameterName = this.getSsmParameterName(
+        webhook.metadata as WebhookMetadata
+      );
+      const isSecretInUse = activeWebhooks.some(
+        (w) =>
+          this.getSsmParameterName(w.metadata as WebhookMetadata) ===
+          parameterName
+      );
+      if (!isSecretInUse) {
+        await this.deleteSsmParameter(parameterName);
+      }
     }
 
-    return this.deploymentSummary(activeWebhooks, webhooksDeleted);
-  }
+    const archived = await this.archiveCatalogNotInConfig();
 
-  private getWebhookUrl(webhookFunction: WebhookFunction): string {
-    const { domainName, basePath } = this.customDomain;
-    const httpEvent = webhookFunction.events.find(
-      (e) =>
-        "http" in e && typeof e.http !== "string" && e.http.method === "post"
-    );
+    return this.deploymentSummary(activeWebhooks, webhooksDeleted, archived);
+  }
 
-    if (!httpEvent) {
-      throw new Error(
-        `Function ${webhookFunction.name} does not have an HTTP POST event`
-      );
+  private getWebhookUrl(
+    webhookConfig: WebhookConfig,
+    stackOutputs?: StackOutputs
+  ): string | undefined {
+    const url = resolveWebhookUrl({
+      webhookConfig,
+      webhookFunction: this.getWebhookFunction(webhookConfig),
+      customDomain: this.customDomain,
+      stackOutputs,
+      functionUrlOutputKey: this.serverless
+        .getProvider("aws")
+        .naming.getLambdaFunctionUrlOutputLogicalId(webhookConfig.functionName),
+    });
+    if (!url) {
+      return undefined;
     }
-    const url = `https://${domainName}/${basePath}${
-      (httpEvent as any).http.path
-    }?stripeAccountKey=${this.accountId}`;
-    return url;
+    const webhookUrl = new URL(url);
+    webhookUrl.searchParams.set("stripeAccountKey", this.accountId);
+    return webhookUrl.toString();
   }
 
   public async createStripeWebhooksAndProducts() {
-    await this.createStripeCustomerPortals();
+    this.plannedChanges = [];
+    // first, as a lookup_key taken by another stage fails the deploy, and
+    // products are attached to features
+    await this.createStripeFeatures();
     await this.createStripeWebhooks();
+    // portals and coupons refer to the ids of products and prices
     await this.createStripeProducts();
+    await this.createStripeCustomerPortals();
+    await this.createStripeCoupons();
+    await this.createStripePromotionCodes();
+    await this.createStripePaymentLinks();
+    if (!this.dryRun) {
+      this.syncState = this.getSyncState();
+    }
+  }
+
+  public getSyncState(): AccountSyncState {
+    return {
+      accountId: this.accountId,
+      connectedAccountId: this.connectedAccountId,
+      changes: this.plannedChanges.filter(
+        (change) => change.action !== "unchanged"
+      ),
+      products: this.stripeProducts,
+      coupons: this.stripeCoupons,
+      promotionCodes: this.stripePromotionCodes,
+      paymentLinks: this.stripePaymentLinks,
+      snapshots: this.snapshots,
+    };
+  }
+
+  /**
+   * Continue from the sync state of a package created by another process,
+   * so that the deployment summary is complete and only the objects the
+   * package marked are pruned
+   */
+  public restoreSyncState(state: AccountSyncState) {
+    this.syncState = state;
+    this.stripeProducts = state.products;
+    this.stripeCoupons = state.coupons;
+    this.stripePromotionCodes = state.promotionCodes;
+    this.stripePaymentLinks = state.paymentLinks ?? [];
+    this.snapshots = state.snapshots;
+  }
+
+  public getSnapshots(): StripeSnapshot[] {
+    return this.snapshots;
+  }
+
+  /**
+   * Remember the state of an object before it is changed, or that it is
+   * created when previous is undefined. Only the first change of an object
+   * is kept, as that is the state a rollback returns to.
+   */
+  private recordSnapshot(
+    entity: PlanEntity,
+    stripeId: string,
+    internalId: string,
+    previous?: Record<string, unknown>,
+    parentId?: string
+  ) {
+    if (this.snapshots.some((snapshot) => snapshot.stripeId === stripeId)) {
+      return;
+    }
+    this.snapshots.push({ entity, stripeId, internalId, previous, parentId });
+  }
+
+  /**
+   * Restore the objects changed by the deploy to their state before it
+   */
+  public async rollback(): Promise<DeploymentSummary> {
+    const { restored, skipped } = await restoreSnapshots(
+      this.getStripe(),
+      this.snapshots
+    );
+    for (const label of skipped) {
+      Logging.logWarning(
+        `WARNING: ${label} no longer exists, not restoring it`
+      );
+    }
+    this.snapshots = [];
+    return [
+      `Rolled back the Stripe changes of account ${this.getAccountLabel()}:`,
+      ...restored.map((line) => `  ${line}`),
+    ];
+  }
+
+  /**
+   * Without a sync state every object marked in Stripe is pruned
+   */
+  private isMarkedForPruning(stripeId: string): boolean {
+    return !this.syncState || isMarkedInSyncState(this.syncState, stripeId);
+  }
+
+  /**
+   * Compute the changes a deploy would make without applying them
+   */
+  public async planStripeWebhooksAndProducts(): Promise<PlannedChange[]> {
+    this.dryRun = true;
+    await this.createStripeWebhooksAndProducts();
+    return this.plannedChanges;
+  }
+
+  private recordChange(change: Omit<PlannedChange, "accountId">) {
+    this.plannedChanges.push({
+      accountId: this.accountId,
+      connectedAccountId: this.connectedAccountId,
+      ...change,
+    });
   }
 
   private findMatchingPrice(
@@ -358,275 +1397,2608 @@ export class ServerlessStripe {
         price.metadata.stage === this.stage &&
         price.metadata.service === this.serverless.service.service &&
         price.metadata.managedBy === Globals.pluginName &&
-        price.metadata.country === priceConfig.countryCode &&
-        price.unit_amount === priceConfig.price &&
-        price.currency === priceConfig.currency &&
-        price.recurring?.interval === priceConfig.interval
+        diffPrice(priceConfig, price).length === 0
     );
   }
 
   private async createStripeProducts() {
-    if (this.products.length === 0) {
-      return;
-    }
     const productsBefore = await this.getProductsFromStripe();
     for (const productConfig of this.products) {
       let product = productsBefore.find(
         (hook) => hook.metadata.internalId === productConfig.internal.id
       );
-
-      const productParams = {
-        name: productConfig.name,
-        metadata: {
-          internalId: productConfig.internal.id,
-          stage: this.stage,
-          service: this.serverless.service.service,
-          managedBy: Globals.pluginName,
-        } as ProductMetadata,
-      };
+      const stripe = this.getStripe();
+      const metadata = {
+        ...this.getOwnershipMetadata(),
+        internalId: productConfig.internal.id,
+      } as ProductMetadata;
+      let prices: Stripe.Price[] = [];
+      // the product is written once its prices, and so its default price,
+      // exist
+      let updateProduct = false;
 
       if (!product) {
-        product = await this.getStripe().products.create(productParams);
+        this.recordChange({
+          entity: "product",
+          action: "create",
+          internalId: productConfig.internal.id,
+          diff: diffFields(
+            {
+              ...getProductCreateParams(productConfig, {}),
+              metadata: productConfig.metadata,
+              default_price: productConfig.default_price,
+            },
+            {}
+          ),
+        });
+        if (this.dryRun) {
+          for (const priceConfig of productConfig.prices) {
+            this.recordPriceCreation(priceConfig);
+          }
+          await this.syncProductFeatures(productConfig);
+          continue;
+        }
+        const productParams = getProductCreateParams(productConfig, metadata);
+        product = await createIdempotently(
+          this.getIdempotencyKey(
+            "product",
+            productConfig.internal.id,
+            productParams
+          ),
+          (options) => stripe.products.create(productParams, options),
+          async (replayed) =>
+            !(await stripe.products.retrieve(replayed.id)).active
+        );
+        this.recordSnapshot("product", product.id, productConfig.internal.id);
         Logging.logInfo(`Created product ${product.id}`);
+        prices = await getAllPricesFromStripe(stripe, product.id);
+        updateProduct = Boolean(productConfig.default_price);
       } else {
-        product = await this.getStripe().products.update(
-          product.id,
-          productParams
+        prices = await getAllPricesFromStripe(stripe, product.id);
+        const defaultPrice = productConfig.prices.find(
+          (priceConfig) => priceConfig.id === productConfig.default_price
         );
-        Logging.logInfo(`Updated webhook ${product.id}`);
+        const diff = [
+          ...diffProduct(
+            productConfig,
+            product,
+            defaultPrice
+              ? (this.findMatchingPrice(defaultPrice, prices)?.id ??
+                  `<${defaultPrice.id}>`)
+              : undefined
+          ),
+          ...diffFields({ active: true }, product),
+          ...this.diffArchiveMark(product),
+        ];
+        this.recordChange({
+          entity: "product",
+          action: diff.length > 0 ? "update" : "unchanged",
+          internalId: productConfig.internal.id,
+          stripeId: product.id,
+          diff,
+        });
+        updateProduct = diff.length > 0 && !this.dryRun;
       }
 
-      const prices = await this.getStripe().prices.list({
-        product: product.id,
-        limit: 100,
-      });
-
       const pricesForProduct: Stripe.Price[] = [];
 
       for (const priceConfig of productConfig.prices) {
-        const existingPrice = this.findMatchingPrice(priceConfig, prices.data);
+        let existingPrice = this.findMatchingPrice(priceConfig, prices);
         if (existingPrice) {
           Logging.logInfo(`Price ${existingPrice.id} already exists`);
+          const diff = [
+            ...diffFields({ active: true }, existingPrice),
+            ...this.diffArchiveMark(existingPrice),
+          ];
+          this.recordChange({
+            entity: "price",
+            action: diff.length > 0 ? "update" : "unchanged",
+            internalId: priceConfig.id,
+            stripeId: existingPrice.id,
+            diff,
+          });
+          if (diff.length > 0 && !this.dryRun) {
+            this.recordSnapshot("price", existingPrice.id, priceConfig.id, {
+              active: existingPrice.active,
+              metadata: {
+                toBeArchived: existingPrice.metadata.toBeArchived ?? "",
+              },
+            });
+            existingPrice = await this.getStripe().prices.update(
+              existingPrice.id,
+              { active: true, metadata: { toBeArchived: "" } }
+            );
+            Logging.logInfo(`Reactivated price ${existingPrice.id}`);
+          }
           pricesForProduct.push(existingPrice);
+          this.stripePriceIds[priceConfig.id] = existingPrice.id;
           this.serverless.service.provider.environment[priceConfig.id] =
             existingPrice.id;
           continue;
         }
+        this.recordPriceCreation(priceConfig);
+        if (this.dryRun) {
+          continue;
+        }
         Logging.logInfo(`Creating price for ${product.id}`);
 
-        const priceParams: Stripe.PriceCreateParams = {
-          product: product.id,
-          unit_amount: priceConfig.price,
-          currency: priceConfig.currency,
-
-          metadata: {
-            stage: this.stage,
-            service: this.serverless.service.service,
-            managedBy: Globals.pluginName,
-            country: priceConfig.countryCode,
-          },
-        };
-        if (priceConfig.interval) {
-          priceParams["recurring"] = {
-            interval: priceConfig.interval,
-          };
+        const priceParams = getPriceCreateParams(priceConfig, product.id, {
+          ...this.getOwnershipMetadata(),
+          country: priceConfig.countryCode,
+          internalId: priceConfig.id,
+        });
+        const stripe = this.getStripe();
+        const price = await createIdempotently(
+          this.getIdempotencyKey("price", priceConfig.id, priceParams),
+          (options) => stripe.prices.create(priceParams, options),
+          async (replayed) =>
+            !(await stripe.prices.retrieve(replayed.id)).active
+        );
+        this.recordSnapshot("price", price.id, priceConfig.id);
+        // a price that does not match its config would be replaced by the
+        // next deploy, with its subscribers left on the archived one
+        const mismatch = diffPrice(priceConfig, price);
+        if (mismatch.length > 0) {
+          throw new Error(
+            `${Globals.pluginName}: Price ${price.id} created for ${
+              priceConfig.id
+            } does not match its config in ${mismatch
+              .map((diff) => diff.field)
+              .join(", ")}`
+          );
         }
-        const price = await this.getStripe().prices.create(priceParams);
         Logging.logInfo(`Created price ${price.id}`);
         pricesForProduct.push(price);
+        this.stripePriceIds[priceConfig.id] = price.id;
         this.serverless.service.provider.environment[priceConfig.id] = price.id;
       }
+
+      // prices removed from config are archived after deploy
+      const pricesNotInConfig = prices.filter(
+        (price) =>
+          price.active &&
+          this.isStripeEntityManagedByThisStack(price) &&
+          !pricesForProduct.some((p) => p.id === price.id)
+      );
+      for (const price of pricesNotInConfig) {
+        await this.markForArchival("price", price, this.getPriceLabel(price));
+      }
+
+      if (updateProduct) {
+        const update = getProductUpdateParams(
+          productConfig,
+          product,
+          { ...metadata, toBeArchived: "" },
+          productConfig.default_price
+            ? this.stripePriceIds[productConfig.default_price]
+            : undefined
+        );
+        this.recordSnapshot(
+          "product",
+          product.id,
+          productConfig.internal.id,
+          getProductRestoreParams(product, update)
+        );
+        product = await stripe.products.update(product.id, {
+          ...update,
+          active: true,
+        });
+        Logging.logInfo(`Updated product ${product.id}`);
+      }
+      await this.syncProductFeatures(productConfig, product);
+
       this.stripeProducts.push({ product, prices: pricesForProduct });
       this.serverless.service.provider.environment[productConfig.internal.id] =
         product.id;
     }
+
+    // products removed from config are archived after deploy,
+    // together with their prices
+    const productsNotInConfig = productsBefore.filter(
+      (product) =>
+        product.active &&
+        !this.products.some(
+          (config) => config.internal.id === product.metadata.internalId
+        )
+    );
+    for (const product of productsNotInConfig) {
+      await this.markForArchival(
+        "product",
+        product,
+        product.metadata.internalId
+      );
+    }
   }
 
-  private async createStripeCustomerPortals() {
-    const portalsBefore = await this.getPortalsFromStripe();
+  private async createStripeFeatures() {
     const stripe = this.getStripe();
+    const entitlements = getEntitlements(stripe);
+    const featuresBefore = await getAllFeaturesFromStripe(stripe);
+    this.checkLivemode(featuresBefore);
 
-    for (const portalConfigs of this.billingPortals) {
-      const internalId = portalConfigs.internalId;
-      let portal = portalsBefore.find(
-        (portal) => portal.metadata.internalId === internalId
+    // lookup_keys are unique per account, and the stage owning a feature may
+    // archive it at any time, so each stage needs lookup_keys of its own
+    this.features.forEach((featureConfig, index) => {
+      const feature = featuresBefore.find(
+        (f) => f.lookup_key === featureConfig.lookup_key
       );
+      if (feature && !this.isStripeEntityManagedByThisStack(feature)) {
+        const owner = feature.metadata.managedBy
+          ? `stage ${feature.metadata.stage} of ${feature.metadata.service}`
+          : "an object not managed by the plugin";
+        throw this.configError(
+          `.features[${index}].lookup_key`,
+          `${featureConfig.lookup_key} is the lookup_key of feature ${feature.id} of ${owner}, e.g. add \${sls:stage} to it`
+        );
+      }
+    });
 
-      const configuration: Stripe.BillingPortal.ConfigurationCreateParams &
-        Stripe.BillingPortal.ConfigurationUpdateParams = {
-        ...portalConfigs.configuration,
-        metadata: {
-          stage: this.stage,
-          service: this.serverless.service.service,
-          managedBy: Globals.pluginName,
-          internalId,
-        },
+    for (const featureConfig of this.features) {
+      const internalId = featureConfig.lookup_key;
+      let feature = featuresBefore.find((f) => f.lookup_key === internalId);
+      const metadata = {
+        ...featureConfig.metadata,
+        ...this.getOwnershipMetadata(),
+        internalId,
       };
-      if (portal) {
-        Logging.logInfo(`Customer portal ${portal.id} already exists`);
-        await stripe.billingPortal.configurations.update(
-          portal.id,
-          configuration
-        );
+
+      if (feature) {
+        const diff = [
+          ...diffFeature(featureConfig, feature),
+          ...this.diffArchiveMark(feature),
+        ];
+        this.recordChange({
+          entity: "feature",
+          action: diff.length > 0 ? "update" : "unchanged",
+          internalId,
+          stripeId: feature.id,
+          diff,
+        });
+        if (diff.length > 0 && !this.dryRun) {
+          const update = {
+            name: featureConfig.name,
+            active: true,
+            metadata: { ...metadata, toBeArchived: "" },
+          };
+          this.recordSnapshot(
+            "feature",
+            feature.id,
+            internalId,
+            pickFields(update, feature) as Record<string, unknown>
+          );
+          feature = await entitlements.updateFeature(feature.id, update);
+          Logging.logInfo(`Updated feature ${feature.id}`);
+        }
       } else {
-        portal = await stripe.billingPortal.configurations.create(
-          configuration
+        const createParams = {
+          lookup_key: internalId,
+          name: featureConfig.name,
+          metadata,
+        };
+        this.recordChange({
+          entity: "feature",
+          action: "create",
+          internalId,
+          diff: diffFields(
+            { ...createParams, metadata: featureConfig.metadata },
+            {}
+          ),
+        });
+        if (this.dryRun) {
+          continue;
+        }
+        feature = await createIdempotently(
+          this.getIdempotencyKey("feature", internalId, createParams),
+          (options) => entitlements.createFeature(createParams, options),
+          // an archived feature keeps its lookup_key and is reactivated
+          // above instead
+          async () => false
         );
-        Logging.logInfo(`Created customer portal ${portal.id}`);
+        this.recordSnapshot("feature", feature.id, internalId);
+        Logging.logInfo(`Created feature ${feature.id}`);
       }
-      this.serverless.service.provider.environment[
-        portalConfigs.envVariableName
-      ] = portal.id;
-      Logging.logInfo(
-        `Customer portal ${portal.id} env var ${portalConfigs.envVariableName} created`
-      );
+      this.stripeFeatureIds[internalId] = feature.id;
+    }
+
+    // features removed from config are archived after deploy, once no
+    // product is attached to them, see archiveCatalog
+    const featuresNotInConfig = featuresBefore.filter(
+      (feature) =>
+        feature.active &&
+        this.isStripeEntityManagedByThisStack(feature) &&
+        !this.features.some(
+          (config) => config.lookup_key === feature.lookup_key
+        )
+    );
+    for (const feature of featuresNotInConfig) {
+      await this.markForArchival("feature", feature, feature.lookup_key);
     }
   }
 
-  private getSsmParameterName = (metadata: WebhookMetadata) => {
-    const name = `stripe-webhook-secret-${this.accountId}-${metadata.service}-${metadata.stage}-${metadata.lambda}`;
-    // must match regex a-zA-Z0-9_.-
-    const regex = /^[a-zA-Z0-9_.-]+$/;
-    if (!regex.test(name)) {
-      throw new Error(
-        `Ssm parameter name ${name} does not match regex ${regex.toString()}`
+  /**
+   * Attach the features the product grants. Features it no longer grants
+   * are detached after deploy, so that customers keep them until the code
+   * that relies on them has been deployed.
+   *
+   * @param product undefined for a product created by this dry run
+   */
+  private async syncProductFeatures(
+    productConfig: StripeProductConfig,
+    product?: Stripe.Product
+  ) {
+    const stripe = this.getStripe();
+    const attached = product
+      ? await getProductFeaturesFromStripe(stripe, product.id)
+      : [];
+    const lookupKeys = productConfig.entitlements ?? [];
+    const getInternalId = (lookupKey: string) =>
+      `${productConfig.internal.id}.${lookupKey}`;
+
+    for (const lookupKey of lookupKeys) {
+      const internalId = getInternalId(lookupKey);
+      const attachment = attached.find(
+        (a) => a.entitlement_feature.lookup_key === lookupKey
       );
-    }
-    // Max lengt 1011 characters
-    const maxTotalLength = 1011;
-    const prefixLength = 80; // approx i.e. arn:aws:ssm:us-east-2:111122223333:parameter/
-    const maxLength = maxTotalLength - prefixLength;
-    if (name.length > maxLength) {
-      throw new Error(
-        `Ssm parameter name ${name} is too long, max length is 1011 characters`
+      if (attachment) {
+        this.recordChange({
+          entity: "productFeature",
+          action: "unchanged",
+          internalId,
+          stripeId: attachment.id,
+          diff: [],
+        });
+        continue;
+      }
+      this.recordChange({
+        entity: "productFeature",
+        action: "create",
+        internalId,
+        diff: diffFields({ entitlement_feature: lookupKey }, {}),
+      });
+      if (this.dryRun || !product) {
+        continue;
+      }
+      const productId = product.id;
+      const params = { entitlement_feature: this.stripeFeatureIds[lookupKey] };
+      const entitlements = getEntitlements(stripe);
+      const productFeature = await createIdempotently(
+        this.getIdempotencyKey("productFeature", internalId, {
+          ...params,
+          product: productId,
+        }),
+        (options) => entitlements.attachFeature(productId, params, options),
+        async (replayed) =>
+          !(await getProductFeaturesFromStripe(stripe, productId)).some(
+            (a) => a.id === replayed.id
+          )
       );
+      this.recordSnapshot(
+        "productFeature",
+        productFeature.id,
+        internalId,
+        undefined,
+        productId
+      );
+      Logging.logInfo(`Attached feature ${lookupKey} to product ${productId}`);
     }
-    return name;
-  };
 
-  private getWebhookMetadata(functionName: string): WebhookMetadata {
-    return {
-      lambda: functionName,
-      stage: this.stage,
-      service: this.serverless.service.service,
-      managedBy: Globals.pluginName,
-    };
+    for (const attachment of attached) {
+      const lookupKey = attachment.entitlement_feature.lookup_key;
+      if (lookupKeys.indexOf(lookupKey) === -1) {
+        this.recordChange({
+          entity: "productFeature",
+          action: "delete",
+          internalId: getInternalId(lookupKey),
+          stripeId: attachment.id,
+          diff: [],
+        });
+      }
+    }
   }
 
-  private async createStripeWebhooks() {
-    const webhooksBefore = await this.getWebhooksFromStripe();
-
-    const webhooksCreatedOrUpdated: Stripe.WebhookEndpoint[] = [];
+  private getStripeProductId(internalId: string): string {
+    const productEntry = this.stripeProducts.find(
+      (entry) => entry.product.metadata.internalId === internalId
+    );
+    // products are not created during a dry run
+    return productEntry ? productEntry.product.id : `<${internalId}>`;
+  }
+
+  /**
+   * Resolve the products and prices a portal configuration refers to by
+   * internal id. Stripe ids in the config are kept as they are.
+   */
+  private resolvePortalConfiguration(
+    configuration: Stripe.BillingPortal.ConfigurationCreateParams,
+    getProductId: (internalId: string) => string | undefined,
+    getPriceId: (priceId: string) => string | undefined
+  ): Stripe.BillingPortal.ConfigurationCreateParams {
+    return resolvePortalConfiguration(configuration, {
+      product: (reference) =>
+        this.products.some((p) => p.internal.id === reference)
+          ? (getProductId(reference) ?? `<${reference}>`)
+          : reference,
+      price: (reference) =>
+        this.products.some((p) => p.prices.some((pc) => pc.id === reference))
+          ? (getPriceId(reference) ?? `<${reference}>`)
+          : reference,
+    });
+  }
+
+  private async createStripeCoupons() {
+    const couponsBefore = await this.getCouponsFromStripe();
+    const stripe = this.getStripe();
+
+    for (const couponConfig of this.coupons) {
+      const internalId = couponConfig.internalId;
+      const productIds = couponConfig.applies_to
+        ? couponConfig.applies_to.products.map((id) =>
+            this.getStripeProductId(id)
+          )
+        : null;
+      let coupon = couponsBefore.find(
+        (c) =>
+          c.metadata.internalId === internalId &&
+          diffCoupon(couponConfig, productIds, c).length === 0
+      );
+
+      if (coupon) {
+        const diff = [
+          ...diffFields({ name: couponConfig.name }, coupon),
+          ...this.diffArchiveMark(coupon),
+        ];
+        this.recordChange({
+          entity: "coupon",
+          action: diff.length > 0 ? "update" : "unchanged",
+          internalId,
+          stripeId: coupon.id,
+          diff,
+        });
+        if (diff.length > 0 && !this.dryRun) {
+          this.recordSnapshot("coupon", coupon.id, internalId, {
+            name: coupon.name ?? "",
+            metadata: { toBeArchived: coupon.metadata.toBeArchived ?? "" },
+          });
+          coupon = await stripe.coupons.update(coupon.id, {
+            name: couponConfig.name,
+            metadata: { toBeArchived: "" },
+          });
+          Logging.logInfo(`Updated coupon ${coupon.id}`);
+        }
+      } else {
+        const previous = couponsBefore.find(
+          (c) => c.metadata.internalId === internalId
+        );
+        this.recordChange({
+          entity: "coupon",
+          action: "create",
+          internalId,
+          diff: previous
+            ? diffCoupon(couponConfig, productIds, previous)
+            : diffFields(
+                getCouponCreateParams(couponConfig, productIds, {}),
+                {}
+              ),
+        });
+        if (this.dryRun) {
+          continue;
+        }
+        const couponParams = getCouponCreateParams(couponConfig, productIds, {
+          ...this.getOwnershipMetadata(),
+          internalId,
+        });
+        coupon = await createIdempotently(
+          this.getIdempotencyKey("coupon", internalId, couponParams),
+          (options) => stripe.coupons.create(couponParams, options),
+          (replayed) => isMissing(() => stripe.coupons.retrieve(replayed.id))
+        );
+        this.recordSnapshot("coupon", coupon.id, internalId);
+        Logging.logInfo(`Created coupon ${coupon.id}`);
+      }
+      this.stripeCoupons.push(coupon);
+      this.serverless.service.provider.environment[internalId] = coupon.id;
+    }
+
+    // coupons removed from config or replaced by a new version
+    // are deleted after deploy
+    const couponsNotInConfig = couponsBefore.filter(
+      (coupon) => !this.stripeCoupons.some((c) => c.id === coupon.id)
+    );
+    for (const coupon of couponsNotInConfig) {
+      await this.markForArchival("coupon", coupon, coupon.metadata.internalId);
+    }
+  }
+
+  private async createStripePromotionCodes() {
+    const promotionCodesBefore = await this.getPromotionCodesFromStripe();
+    const stripe = this.getStripe();
+
+    for (const promotionCodeConfig of this.promotionCodes) {
+      const internalId = promotionCodeConfig.internalId;
+      const coupon = this.stripeCoupons.find(
+        (c) => c.metadata.internalId === promotionCodeConfig.coupon
+      );
+      // coupons are not created during a dry run
+      const couponId = coupon ? coupon.id : `<${promotionCodeConfig.coupon}>`;
+      let promotionCode = promotionCodesBefore.find(
+        (p) =>
+          p.metadata.internalId === internalId &&
+          diffPromotionCode(promotionCodeConfig, couponId, p).length === 0
+      );
+
+      if (promotionCode) {
+        const diff = [
+          ...diffFields({ active: true }, promotionCode),
+          ...this.diffArchiveMark(promotionCode),
+        ];
+        this.recordChange({
+          entity: "promotionCode",
+          action: diff.length > 0 ? "update" : "unchanged",
+          internalId,
+          stripeId: promotionCode.id,
+          diff,
+        });
+        if (diff.length > 0 && !this.dryRun) {
+          this.recordSnapshot("promotionCode", promotionCode.id, internalId, {
+            active: promotionCode.active,
+            metadata: {
+              toBeArchived: promotionCode.metadata.toBeArchived ?? "",
+            },
+          });
+          promotionCode = await stripe.promotionCodes.update(promotionCode.id, {
+            active: true,
+            metadata: { toBeArchived: "" },
+          });
+          Logging.logInfo(`Updated promotion code ${promotionCode.id}`);
+        }
+      } else {
+        const previous = promotionCodesBefore.find(
+          (p) => p.metadata.internalId === internalId && p.active
+        );
+        this.recordChange({
+          entity: "promotionCode",
+          action: "create",
+          internalId,
+          diff: previous
+            ? diffPromotionCode(promotionCodeConfig, couponId, previous)
+            : diffFields(
+                getPromotionCodeCreateParams(promotionCodeConfig, couponId, {}),
+                {}
+              ),
+        });
+        if (this.dryRun) {
+          continue;
+        }
+        // codes must be unique among active promotion codes, so the previous
+        // version can not wait until after deploy to be deactivated
+        const sameCode = promotionCodesBefore.find(
+          (p) =>
+            p.active &&
+            p.code.toUpperCase() === promotionCodeConfig.code.toUpperCase()
+        );
+        if (sameCode) {
+          this.recordSnapshot(
+            "promotionCode",
+            sameCode.id,
+            sameCode.metadata.internalId,
+            {
+              active: true,
+              metadata: { toBeArchived: sameCode.metadata.toBeArchived ?? "" },
+            }
+          );
+          await stripe.promotionCodes.update(sameCode.id, {
+            active: false,
+            metadata: { toBeArchived: "" },
+          });
+          sameCode.active = false;
+          Logging.logInfo(`Deactivated promotion code ${sameCode.id}`);
+        }
+        const promotionCodeParams = getPromotionCodeCreateParams(
+          promotionCodeConfig,
+          couponId,
+          { ...this.getOwnershipMetadata(), internalId }
+        );
+        promotionCode = await createIdempotently(
+          this.getIdempotencyKey(
+            "promotionCode",
+            internalId,
+            promotionCodeParams
+          ),
+          (options) =>
+            stripe.promotionCodes.create(promotionCodeParams, options),
+          async (replayed) =>
+            !(await stripe.promotionCodes.retrieve(replayed.id)).active
+        );
+        this.recordSnapshot("promotionCode", promotionCode.id, internalId);
+        Logging.logInfo(`Created promotion code ${promotionCode.id}`);
+      }
+      this.stripePromotionCodes.push(promotionCode);
+      this.serverless.service.provider.environment[internalId] =
+        promotionCode.id;
+    }
+
+    // promotion codes removed from config are deactivated after deploy
+    const promotionCodesNotInConfig = promotionCodesBefore.filter(
+      (promotionCode) =>
+        promotionCode.active &&
+        !this.stripePromotionCodes.some((p) => p.id === promotionCode.id)
+    );
+    for (const promotionCode of promotionCodesNotInConfig) {
+      await this.markForArchival(
+        "promotionCode",
+        promotionCode,
+        promotionCode.metadata.internalId
+      );
+    }
+  }
+
+  private recordPriceCreation(priceConfig: StripePriceConfig) {
+    this.recordChange({
+      entity: "price",
+      action: "create",
+      internalId: priceConfig.id,
+      diff: diffFields(getPriceConfigIdentity(priceConfig), {}),
+    });
+  }
+
+  private async createStripeCustomerPortals() {
+    const portalsBefore = await this.getPortalsFromStripe();
+    const stripe = this.getStripe();
+
+    for (const portalConfigs of this.billingPortals) {
+      const internalId = portalConfigs.internalId;
+      let portal = portalsBefore.find(
+        (portal) => portal.metadata.internalId === internalId
+      );
+
+      const metadata: ProductMetadata = {
+        ...this.getOwnershipMetadata(),
+        internalId,
+      };
+      const resolvedConfiguration = this.resolvePortalConfiguration(
+        portalConfigs.configuration,
+        (productId) => this.getStripeProductId(productId),
+        (priceId) => this.stripePriceIds[priceId]
+      );
+      const configuration: Stripe.BillingPortal.ConfigurationCreateParams &
+        Stripe.BillingPortal.ConfigurationUpdateParams = {
+        ...resolvedConfiguration,
+        metadata,
+      };
+      if (portal) {
+        Logging.logInfo(`Customer portal ${portal.id} already exists`);
+        const diff = [
+          ...diffFields({ ...resolvedConfiguration, active: true }, portal),
+          ...this.diffArchiveMark(portal),
+        ];
+        this.recordChange({
+          entity: "billingPortal",
+          action: diff.length > 0 ? "update" : "unchanged",
+          internalId,
+          stripeId: portal.id,
+          diff,
+        });
+        if (diff.length > 0 && !this.dryRun) {
+          this.recordSnapshot("billingPortal", portal.id, internalId, {
+            ...(pickFields(resolvedConfiguration, portal) as Record<
+              string,
+              unknown
+            >),
+            active: portal.active,
+            metadata: { toBeArchived: portal.metadata.toBeArchived ?? "" },
+          });
+          await stripe.billingPortal.configurations.update(portal.id, {
+            ...configuration,
+            active: true,
+            metadata: { ...metadata, toBeArchived: "" },
+          });
+          Logging.logInfo(`Updated customer portal ${portal.id}`);
+        }
+      } else {
+        this.recordChange({
+          entity: "billingPortal",
+          action: "create",
+          internalId,
+          diff: diffFields(resolvedConfiguration, {}),
+        });
+        if (this.dryRun) {
+          continue;
+        }
+        portal = await createIdempotently(
+          this.getIdempotencyKey("billingPortal", internalId, configuration),
+          (options) =>
+            stripe.billingPortal.configurations.create(configuration, options),
+          async (replayed) =>
+            !(await stripe.billingPortal.configurations.retrieve(replayed.id))
+              .active
+        );
+        this.recordSnapshot("billingPortal", portal.id, internalId);
+        Logging.logInfo(`Created customer portal ${portal.id}`);
+      }
+      this.serverless.service.provider.environment[
+        portalConfigs.envVariableName
+      ] = portal.id;
+      Logging.logInfo(
+        `Customer portal ${portal.id} env var ${portalConfigs.envVariableName} created`
+      );
+    }
+
+    // portals removed from config are archived after deploy
+    const portalsNotInConfig = portalsBefore.filter(
+      (portal) =>
+        portal.active &&
+        !this.billingPortals.some(
+          (config) => config.internalId === portal.metadata.internalId
+        )
+    );
+    for (const portal of portalsNotInConfig) {
+      await this.markForArchival(
+        "billingPortal",
+        portal,
+        portal.metadata.internalId
+      );
+    }
+  }
+
+  private getPaymentLinkRedirectUrl(
+    linkConfig: StripePaymentLinkConfig
+  ): string | undefined {
+    return linkConfig.redirect_path
+      ? getRedirectUrl(this.customDomain, linkConfig.redirect_path)
+      : undefined;
+  }
+
+  private async createStripePaymentLinks() {
+    const linksBefore = await this.getPaymentLinksFromStripe();
+    const stripe = this.getStripe();
+
+    for (const linkConfig of this.paymentLinks) {
+      const internalId = linkConfig.internalId;
+      // prices are not created during a dry run
+      const prices = linkConfig.line_items.map(
+        (item) => this.stripePriceIds[item.price] ?? `<${item.price}>`
+      );
+      const redirectUrl = this.getPaymentLinkRedirectUrl(linkConfig);
+      const metadata: ProductMetadata = {
+        ...this.getOwnershipMetadata(),
+        internalId,
+      };
+      let link = linksBefore.find(
+        (l) =>
+          l.metadata.internalId === internalId &&
+          diffFields(prices, getLinkPrices(l)).length === 0
+      );
+
+      if (link) {
+        const diff = [
+          ...diffPaymentLink(linkConfig, link, redirectUrl),
+          ...diffFields({ active: true }, link),
+          ...this.diffArchiveMark(link),
+        ];
+        this.recordChange({
+          entity: "paymentLink",
+          action: diff.length > 0 ? "update" : "unchanged",
+          internalId,
+          stripeId: link.id,
+          diff,
+        });
+        if (diff.length > 0 && !this.dryRun) {
+          const update = getPaymentLinkUpdateParams(
+            linkConfig,
+            link,
+            redirectUrl,
+            { ...metadata, toBeArchived: "" }
+          );
+          this.recordSnapshot(
+            "paymentLink",
+            link.id,
+            internalId,
+            getPaymentLinkRestoreParams(link, update)
+          );
+          link = await stripe.paymentLinks.update(link.id, {
+            ...update,
+            active: true,
+          });
+          Logging.logInfo(`Updated payment link ${link.id}`);
+        }
+      } else {
+        // the prices of a link can not be changed, so a new link replaces
+        // the previous one, which is deactivated after deploy
+        const previous = linksBefore.find(
+          (l) => l.metadata.internalId === internalId && l.active
+        );
+        const createParams = getPaymentLinkCreateParams(
+          linkConfig,
+          prices,
+          redirectUrl,
+          metadata
+        );
+        this.recordChange({
+          entity: "paymentLink",
+          action: "create",
+          internalId,
+          diff: previous
+            ? diffFields({ prices }, { prices: getLinkPrices(previous) })
+            : diffFields(
+                { ...createParams, metadata: linkConfig.metadata },
+                {}
+              ),
+        });
+        if (this.dryRun) {
+          continue;
+        }
+        link = await createIdempotently(
+          this.getIdempotencyKey("paymentLink", internalId, createParams),
+          (options) => stripe.paymentLinks.create(createParams, options),
+          async (replayed) =>
+            !(await stripe.paymentLinks.retrieve(replayed.id)).active
+        );
+        this.recordSnapshot("paymentLink", link.id, internalId);
+        Logging.logInfo(`Created payment link ${link.id}`);
+      }
+      this.stripePaymentLinks.push(link);
+      this.serverless.service.provider.environment[internalId] = link.id;
+      this.serverless.service.provider.environment[`${internalId}Url`] =
+        link.url;
+    }
+
+    // links removed from config or replaced are deactivated after deploy
+    const linksNotInConfig = linksBefore.filter(
+      (link) =>
+        link.active && !this.stripePaymentLinks.some((l) => l.id === link.id)
+    );
+    for (const link of linksNotInConfig) {
+      await this.markForArchival("paymentLink", link, link.metadata.internalId);
+    }
+  }
+
+  private getPriceLabel(price: Stripe.Price): string {
+    return (
+      price.metadata.internalId ??
+      `${price.metadata.country} ${price.unit_amount} ${price.currency}`
+    );
+  }
+
+  private diffArchiveMark(
+    stripeEntity: Pick<Stripe.Product, "metadata">
+  ): FieldDiff[] {
+    if (!stripeEntity.metadata.toBeArchived) {
+      return [];
+    }
+    return [
+      {
+        field: "metadata.toBeArchived",
+        before: stripeEntity.metadata.toBeArchived,
+        after: undefined,
+      },
+    ];
+  }
+
+  private async markForArchival(
+    entity: ArchivableEntity,
+    stripeEntity: Pick<Stripe.Product, "id" | "metadata">,
+    internalId: string
+  ) {
+    this.recordChange({
+      entity,
+      action: "archive",
+      internalId,
+      stripeId: stripeEntity.id,
+      diff: [],
+    });
+    if (this.dryRun || stripeEntity.metadata.toBeArchived) {
+      return;
+    }
+    this.recordSnapshot(entity, stripeEntity.id, internalId, {
+      metadata: { toBeArchived: "" },
+    });
+    const params = {
+      metadata: { ...stripeEntity.metadata, toBeArchived: "true" },
+    };
+    const stripe = this.getStripe();
+    if (entity === "product") {
+      await stripe.products.update(stripeEntity.id, params);
+    } else if (entity === "price") {
+      await stripe.prices.update(stripeEntity.id, params);
+    } else if (entity === "coupon") {
+      await stripe.coupons.update(stripeEntity.id, params);
+    } else if (entity === "promotionCode") {
+      await stripe.promotionCodes.update(stripeEntity.id, params);
+    } else if (entity === "paymentLink") {
+      await stripe.paymentLinks.update(stripeEntity.id, params);
+    } else if (entity === "feature") {
+      await getEntitlements(stripe).updateFeature(stripeEntity.id, params);
+    } else {
+      await stripe.billingPortal.configurations.update(stripeEntity.id, params);
+    }
+    Logging.logInfo(`Marked ${entity} ${stripeEntity.id} for archival`);
+  }
+
+  /**
+   * Archive catalog objects. Stripe does not allow deleting objects that may
+   * have been used, so they are deactivated instead. Coupons have no active
+   * state and are deleted, which keeps existing discounts intact.
+   */
+  private async archiveCatalog(
+    catalog: CatalogEntities
+  ): Promise<ArchivedEntity[]> {
+    const stripe = this.getStripe();
+    const archived: ArchivedEntity[] = [];
+    const params = { active: false, metadata: { toBeArchived: "" } };
+
+    for (const { product, productFeature } of catalog.productFeatures) {
+      await getEntitlements(stripe).detachFeature(
+        product.id,
+        productFeature.id
+      );
+      const lookupKey = productFeature.entitlement_feature.lookup_key;
+      Logging.logInfo(
+        `Detached feature ${lookupKey} from product ${product.id}`
+      );
+      archived.push({
+        entity: "productFeature",
+        stripeId: productFeature.id,
+        internalId: `${product.metadata.internalId}.${lookupKey}`,
+      });
+    }
+    // links are deactivated before the prices they sell
+    for (const link of catalog.paymentLinks) {
+      await stripe.paymentLinks.update(link.id, params);
+      Logging.logInfo(`Deactivated payment link ${link.id}`);
+      archived.push({
+        entity: "paymentLink",
+        stripeId: link.id,
+        internalId: link.metadata.internalId,
+      });
+    }
+    for (const promotionCode of catalog.promotionCodes) {
+      await stripe.promotionCodes.update(promotionCode.id, params);
+      Logging.logInfo(`Archived promotion code ${promotionCode.id}`);
+      archived.push({
+        entity: "promotionCode",
+        stripeId: promotionCode.id,
+        internalId: promotionCode.metadata.internalId,
+      });
+    }
+    for (const coupon of catalog.coupons) {
+      await stripe.coupons.del(coupon.id);
+      Logging.logInfo(`Deleted coupon ${coupon.id}`);
+      archived.push({
+        entity: "coupon",
+        stripeId: coupon.id,
+        internalId: coupon.metadata.internalId,
+      });
+    }
+    for (const price of catalog.prices) {
+      await stripe.prices.update(price.id, params);
+      Logging.logInfo(`Archived price ${price.id}`);
+      archived.push({
+        entity: "price",
+        stripeId: price.id,
+        internalId: this.getPriceLabel(price),
+      });
+    }
+    for (const product of catalog.products) {
+      await stripe.products.update(product.id, params);
+      Logging.logInfo(`Archived product ${product.id}`);
+      archived.push({
+        entity: "product",
+        stripeId: product.id,
+        internalId: product.metadata.internalId,
+      });
+    }
+    // a feature still granted by a product, e.g. one attached in the
+    // dashboard, stays marked until it is detached
+    const attachedFeatureIds =
+      catalog.features.length > 0 ? await this.getAttachedFeatureIds() : [];
+    for (const feature of catalog.features) {
+      if (attachedFeatureIds.indexOf(feature.id) !== -1) {
+        Logging.logWarning(
+          `WARNING: Feature ${feature.id} is still attached to a product and is not archived`
+        );
+        continue;
+      }
+      await getEntitlements(stripe).updateFeature(feature.id, params);
+      Logging.logInfo(`Archived feature ${feature.id}`);
+      archived.push({
+        entity: "feature",
+        stripeId: feature.id,
+        internalId: feature.lookup_key,
+      });
+    }
+    for (const portal of catalog.portals) {
+      if (portal.is_default) {
+        Logging.logWarning(
+          `WARNING: Customer portal ${portal.id} is the default configuration and cannot be archived`
+        );
+        continue;
+      }
+      await stripe.billingPortal.configurations.update(portal.id, params);
+      Logging.logInfo(`Archived customer portal ${portal.id}`);
+      archived.push({
+        entity: "billingPortal",
+        stripeId: portal.id,
+        internalId: portal.metadata.internalId,
+      });
+    }
+    return archived;
+  }
+
+  private async getPricesFromStripe(): Promise<Stripe.Price[]> {
+    const prices = await getAllPricesFromStripe(this.getStripe());
+    this.checkLivemode(prices);
+    return prices.filter((i) => this.isStripeEntityManagedByThisStack(i));
+  }
+
+  private async getCouponsFromStripe(): Promise<Stripe.Coupon[]> {
+    const coupons = await getAllCouponsFromStripe(this.getStripe());
+    this.checkLivemode(coupons);
+    return coupons.filter((i) => this.isStripeEntityManagedByThisStack(i));
+  }
+
+  private async getPaymentLinksFromStripe(): Promise<Stripe.PaymentLink[]> {
+    const paymentLinks = await getAllPaymentLinksFromStripe(this.getStripe());
+    this.checkLivemode(paymentLinks);
+    return paymentLinks.filter((i) => this.isStripeEntityManagedByThisStack(i));
+  }
+
+  /**
+   * Ids of the features attached to the active products of the account,
+   * whichever stage manages them
+   */
+  private async getAttachedFeatureIds(): Promise<string[]> {
+    const stripe = this.getStripe();
+    const products = (await getAllProductsFromStripe(stripe)).filter(
+      (product) => product.active
+    );
+    const featureIds: string[] = [];
+    for (const product of products) {
+      const attached = await getProductFeaturesFromStripe(stripe, product.id);
+      featureIds.push(
+        ...attached.map((attachment) => attachment.entitlement_feature.id)
+      );
+    }
+    return featureIds;
+  }
+
+  private async getFeaturesFromStripe(): Promise<EntitlementFeature[]> {
+    const features = await getAllFeaturesFromStripe(this.getStripe());
+    this.checkLivemode(features);
+    return features.filter((i) => this.isStripeEntityManagedByThisStack(i));
+  }
+
+  /**
+   * Attachments of features the config no longer grants, on the products
+   * that stay in config
+   */
+  private async getProductFeaturesNotInConfig(
+    products: Stripe.Product[]
+  ): Promise<CatalogEntities["productFeatures"]> {
+    const productFeatures: CatalogEntities["productFeatures"] = [];
+    for (const productConfig of this.products) {
+      const product = products.find(
+        (p) =>
+          p.active &&
+          !p.metadata.toBeArchived &&
+          p.metadata.internalId === productConfig.internal.id
+      );
+      if (!product) {
+        continue;
+      }
+      const lookupKeys = productConfig.entitlements ?? [];
+      const attached = await getProductFeaturesFromStripe(
+        this.getStripe(),
+        product.id
+      );
+      for (const productFeature of attached) {
+        if (
+          lookupKeys.indexOf(productFeature.entitlement_feature.lookup_key) ===
+            -1 &&
+          this.isMarkedForPruning(productFeature.id)
+        ) {
+          productFeatures.push({ product, productFeature });
+        }
+      }
+    }
+    return productFeatures;
+  }
+
+  private async getPromotionCodesFromStripe(): Promise<Stripe.PromotionCode[]> {
+    const promotionCodes = await getAllPromotionCodesFromStripe(
+      this.getStripe()
+    );
+    this.checkLivemode(promotionCodes);
+    return promotionCodes.filter((i) =>
+      this.isStripeEntityManagedByThisStack(i)
+    );
+  }
+
+  private async archiveCatalogNotInConfig(): Promise<ArchivedEntity[]> {
+    const allProducts = await this.getProductsFromStripe();
+    const products = allProducts.filter(
+      (product) =>
+        product.active &&
+        product.metadata.toBeArchived &&
+        this.isMarkedForPruning(product.id)
+    );
+    const prices = (await this.getPricesFromStripe()).filter(
+      (price) =>
+        price.active &&
+        ((price.metadata.toBeArchived && this.isMarkedForPruning(price.id)) ||
+          products.some((product) => product.id === price.product))
+    );
+    const portals = (await this.getPortalsFromStripe()).filter(
+      (portal) =>
+        portal.active &&
+        portal.metadata.toBeArchived &&
+        this.isMarkedForPruning(portal.id)
+    );
+    const coupons = (await this.getCouponsFromStripe()).filter(
+      (coupon) =>
+        coupon.metadata.toBeArchived && this.isMarkedForPruning(coupon.id)
+    );
+    const promotionCodes = (await this.getPromotionCodesFromStripe()).filter(
+      (promotionCode) =>
+        promotionCode.active &&
+        ((promotionCode.metadata.toBeArchived &&
+          this.isMarkedForPruning(promotionCode.id)) ||
+          coupons.some((coupon) => coupon.id === promotionCode.coupon.id))
+    );
+    const paymentLinks = (await this.getPaymentLinksFromStripe()).filter(
+      (link) =>
+        link.active &&
+        link.metadata.toBeArchived &&
+        this.isMarkedForPruning(link.id)
+    );
+    const features = (await this.getFeaturesFromStripe()).filter(
+      (feature) =>
+        feature.active &&
+        feature.metadata.toBeArchived &&
+        this.isMarkedForPruning(feature.id)
+    );
+    const productFeatures =
+      await this.getProductFeaturesNotInConfig(allProducts);
+    Logging.logInfo(
+      `Found ${products.length} products, ${prices.length} prices, ${portals.length} portals, ` +
+        `${coupons.length} coupons, ${promotionCodes.length} promotion codes, ` +
+        `${paymentLinks.length} payment links and ${features.length} features that are marked for archival, ` +
+        `and ${productFeatures.length} features to detach from products`
+    );
+    return this.archiveCatalog({
+      products,
+      prices,
+      portals,
+      coupons,
+      promotionCodes,
+      paymentLinks,
+      features,
+      productFeatures,
+    });
+  }
+
+  private async archiveAllCatalog(): Promise<ArchivedEntity[]> {
+    const products = (await this.getProductsFromStripe()).filter(
+      (product) => product.active
+    );
+    const prices = (await this.getPricesFromStripe()).filter(
+      (price) => price.active
+    );
+    const portals = (await this.getPortalsFromStripe()).filter(
+      (portal) => portal.active
+    );
+    const coupons = await this.getCouponsFromStripe();
+    const promotionCodes = (await this.getPromotionCodesFromStripe()).filter(
+      (promotionCode) => promotionCode.active
+    );
+    const paymentLinks = (await this.getPaymentLinksFromStripe()).filter(
+      (link) => link.active
+    );
+    const features = (await this.getFeaturesFromStripe()).filter(
+      (feature) => feature.active
+    );
+    Logging.logInfo(
+      `Archiving ${products.length} products, ${prices.length} prices, ${portals.length} portals, ` +
+        `${coupons.length} coupons, ${promotionCodes.length} promotion codes, ` +
+        `${paymentLinks.length} payment links and ${features.length} features`
+    );
+    return this.archiveCatalog({
+      products,
+      prices,
+      portals,
+      coupons,
+      promotionCodes,
+      paymentLinks,
+      features,
+      // the products are archived with the features they grant
+      productFeatures: [],
+    });
+  }
+
+  private getSsmParameterName = (metadata: WebhookMetadata) => {
+    // endpoints of connected accounts get their own secret
+    const account = metadata.connect
+      ? `${this.accountId}-connect`
+      : this.accountId;
+    const name = `stripe-webhook-secret-${account}-${metadata.service}-${metadata.stage}-${metadata.lambda}`;
+    // must match regex a-zA-Z0-9_.-
+    const regex = /^[a-zA-Z0-9_.-]+$/;
+    if (!regex.test(name)) {
+      throw new Error(
+        `Ssm parameter name ${name} does not match regex ${regex.toString()}`
+      );
+    }
+    // Max lengt 1011 characters
+    const maxTotalLength = 1011;
+    const prefixLength = 80; // approx i.e. arn:aws:ssm:us-east-2:111122223333:parameter/
+    const maxLength = maxTotalLength - prefixLength;
+    if (name.length > maxLength) {
+      throw new Error(
+        `Ssm parameter name ${name} is too long, max length is 1011 characters`
+      );
+    }
+    return name;
+  };
+
+  /**
+   * Tell the runtime handler where the secret of this account is found,
+   * several accounts may share the same webhook function
+   */
+  private addWebhookAccount(
+    webhookFunction: WebhookFunction,
+    webhookConfig: WebhookConfig,
+    previousEnvVariableName?: string
+  ) {
+    const environment = webhookFunction.environment;
+    const accounts: WebhookAccounts = JSON.parse(
+      (environment[WEBHOOK_ACCOUNTS_ENV_VARIABLE] as string) || "{}"
+    );
+    accounts[this.accountId] = {
+      envVariableName: webhookConfig.webhookSecretEnvVariableName,
+      secretSource: webhookConfig.secretSource ?? "environment",
+      previousEnvVariableName,
+    };
+    environment[WEBHOOK_ACCOUNTS_ENV_VARIABLE] = JSON.stringify(accounts);
+  }
+
+  /**
+   * Allow the webhook function to read and decrypt a webhook secret
+   * parameter. The statements are added to the shared role of the service,
+   * limited to the function by the ARN Lambda tags its credentials with.
+   */
+  private grantSsmParameterAccess(
+    parameterName: string,
+    webhookFunction: WebhookFunction
+  ) {
+    const provider = this.serverless.service.provider;
+    provider.iam = provider.iam || {};
+    provider.iam.role = provider.iam.role || {};
+    const role = provider.iam.role;
+    if (
+      typeof role === "string" ||
+      "Fn::Sub" in role ||
+      "Fn::ImportValue" in role ||
+      "Fn::GetAtt" in role
+    ) {
+      throw new Error(
+        `${Globals.pluginName}: secretSource 'ssm' requires the role of the service to be managed by Serverless`
+      );
+    }
+    const parameterArn = {
+      "Fn::Sub": `arn:\${AWS::Partition}:ssm:\${AWS::Region}:\${AWS::AccountId}:parameter/${parameterName}`,
+    };
+    const sourceFunction = {
+      ArnLike: {
+        "lambda:SourceFunctionArn": `arn:*:lambda:${this.region}:*:function:${webhookFunction.name}`,
+      },
+    };
+    role.statements = role.statements || [];
+    role.statements.push(
+      {
+        Effect: "Allow",
+        Action: ["ssm:GetParameter"],
+        Resource: [parameterArn],
+        Condition: sourceFunction,
+      },
+      {
+        // SecureString parameters are encrypted with the aws/ssm key
+        Effect: "Allow",
+        Action: ["kms:Decrypt"],
+        Resource: "*",
+        Condition: {
+          StringEquals: {
+            "kms:ViaService": `ssm.${this.region}.amazonaws.com`,
+          },
+          StringLike: {
+            "kms:EncryptionContext:PARAMETER_ARN": `arn:*:ssm:${this.region}:*:parameter/${parameterName}`,
+          },
+          ...sourceFunction,
+        },
+      }
+    );
+  }
+
+  private getPreviousSsmParameterName(metadata: WebhookMetadata) {
+    return `${this.getSsmParameterName(metadata)}-previous`;
+  }
+
+  private getWebhookMetadata(functionName: string): WebhookMetadata {
+    const metadata: WebhookMetadata = {
+      lambda: functionName,
+      ...this.getOwnershipMetadata(),
+    };
+    const webhookConfig = this.webhooks.find(
+      (webhook) => webhook.functionName === functionName
+    );
+    if (webhookConfig && webhookConfig.connect) {
+      metadata.connect = "true";
+    }
+    return metadata;
+  }
+
+  private getWebhookFunction(webhookConfig: WebhookConfig): WebhookFunction {
+    const { functionName, events, webhookSecretEnvVariableName } =
+      webhookConfig;
+    const webhookFunction = this.serverless.service.functions[functionName];
+    if (!webhookFunction) {
+      throw new Error(`Function ${functionName} not found`);
+    }
+    if (!events) {
+      throw new Error(
+        `Function ${functionName} does not have any events defined`
+      );
+    }
+    if (!webhookSecretEnvVariableName) {
+      throw new Error(`webhookSecretEnvVariableName is required`);
+    }
+    return webhookFunction;
+  }
+
+  private async getStackOutputs(): Promise<StackOutputs | undefined> {
+    const provider = this.serverless.getProvider("aws");
+    try {
+      const response = await provider.request<{
+        Stacks: { Outputs?: { OutputKey: string; OutputValue: string }[] }[];
+      }>("CloudFormation", "describeStacks", {
+        StackName: provider.naming.getStackName(),
+      });
+      const outputs: StackOutputs = {};
+      for (const output of response.Stacks[0].Outputs || []) {
+        outputs[output.OutputKey] = output.OutputValue;
+      }
+      return outputs;
+    } catch (e) {
+      if (e.message && e.message.includes("does not exist")) {
+        // first deployment
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  private async createStripeWebhooks() {
+    const webhooksBefore = await this.getWebhooksFromStripe();
+
+    const needsStackOutputs = this.webhooks.some((webhookConfig) =>
+      isUrlFromStackOutputs(
+        webhookConfig,
+        this.getWebhookFunction(webhookConfig),
+        this.customDomain
+      )
+    );
+    const stackOutputs = needsStackOutputs
+      ? await this.getStackOutputs()
+      : undefined;
+
+    const webhooksCreatedOrUpdated: Stripe.WebhookEndpoint[] = [];
+
+    for (const webhookConfig of this.webhooks) {
+      const webhookUrl = this.getWebhookUrl(webhookConfig, stackOutputs);
+      const webhook = await this.syncWebhook(
+        webhookConfig,
+        webhookUrl,
+        webhooksBefore
+      );
+      if (webhook) {
+        webhooksCreatedOrUpdated.push(webhook);
+      }
+    }
+
+    const webhooksToBeDeleted = webhooksBefore.filter(
+      (w) => !webhooksCreatedOrUpdated.some((wc) => wc.id === w.id)
+    );
+    Logging.logInfo(
+      `Found ${webhooksToBeDeleted.length} webhooks not in config, marking them for deletion`
+    );
+    // mar webhooks that are not in config for deletion
+    // deletion happens after deploy
+    for (const webhook of webhooksToBeDeleted) {
+      this.recordChange({
+        entity: "webhook",
+        action: "delete",
+        internalId: webhook.metadata.lambda,
+        stripeId: webhook.id,
+        diff: [],
+      });
+      if (this.dryRun) {
+        continue;
+      }
+      if (!webhook.metadata.toBeDeleted) {
+        this.recordSnapshot("webhook", webhook.id, webhook.metadata.lambda, {
+          metadata: { toBeDeleted: "" },
+        });
+      }
+      await this.getStripe().webhookEndpoints.update(webhook.id, {
+        metadata: {
+          ...webhook.metadata,
+          toBeDeleted: "true",
+        },
+      });
+      Logging.logInfo(`Marked webhook ${webhook.id} for deletion`);
+    }
+  }
+
+  /**
+   * Create or update the endpoint of a webhook and inject its secret into
+   * the function. Without a URL the endpoint can not be created yet and is
+   * created after deploy from the stack outputs.
+   */
+  private async syncWebhook(
+    webhookConfig: WebhookConfig,
+    webhookUrl: string | undefined,
+    webhooksBefore: Stripe.WebhookEndpoint[]
+  ): Promise<Stripe.WebhookEndpoint | undefined> {
+    const { functionName, events, webhookSecretEnvVariableName } =
+      webhookConfig;
+    const webhookFunction = this.getWebhookFunction(webhookConfig);
+
+    // an endpoint replaced by rotate-secret stays until the next deploy
+    let webhook =
+      webhooksBefore.find(
+        (hook) =>
+          hook.metadata.lambda === functionName && !hook.metadata.toBeDeleted
+      ) ?? webhooksBefore.find((hook) => hook.metadata.lambda === functionName);
+
+    const webhookParams = {
+      url: webhookUrl,
+      enabled_events: events,
+      metadata: this.getWebhookMetadata(functionName),
+    };
+
+    let createNewWebhook = !webhook;
+    // connect can not be changed on an existing endpoint
+    if (
+      webhook &&
+      (webhook.metadata.connect || undefined) !== webhookParams.metadata.connect
+    ) {
+      Logging.logInfo(
+        `Webhook ${webhook.id} of ${functionName} changes connect, creating webhook again`
+      );
+      createNewWebhook = true;
+    }
+    let webhookSecretEnvVarValue: string;
+    if (!createNewWebhook) {
+      webhookSecretEnvVarValue = await this.getSsmParameter(
+        this.getSsmParameterName(webhookParams.metadata)
+      );
+      if (!webhookSecretEnvVarValue) {
+        Logging.logWarning(
+          `WARNING: Webhook secret not found for ${functionName} ${webhookParams.metadata.lambda}, creating webhook again.`
+        );
+        createNewWebhook = true;
+      } else {
+        const diff = this.diffWebhook(webhookParams, webhook);
+        this.recordChange({
+          entity: "webhook",
+          action: diff.length > 0 ? "update" : "unchanged",
+          internalId: functionName,
+          stripeId: webhook.id,
+          diff,
+        });
+        if (diff.length > 0 && !this.dryRun) {
+          this.recordSnapshot("webhook", webhook.id, functionName, {
+            url: webhook.url,
+            enabled_events: webhook.enabled_events,
+            metadata: { toBeDeleted: webhook.metadata.toBeDeleted ?? "" },
+          });
+          await this.getStripe().webhookEndpoints.update(webhook.id, {
+            ...webhookParams,
+            // an empty value removes a stale deletion mark
+            metadata: { ...webhookParams.metadata, toBeDeleted: "" },
+          });
+          Logging.logInfo(`Updated webhook ${webhook.id}`);
+        }
+      }
+    }
+    if (createNewWebhook) {
+      this.recordChange({
+        entity: "webhook",
+        action: "create",
+        internalId: functionName,
+        diff: diffFields(
+          {
+            url:
+              webhookParams.url ?? "(resolved from stack outputs after deploy)",
+            enabled_events: events,
+            connect: webhookConfig.connect,
+          },
+          {}
+        ),
+      });
+      if (this.dryRun) {
+        return undefined;
+      }
+      if (!webhookUrl) {
+        Logging.logInfo(
+          `Webhook for ${functionName} will be created after deploy`
+        );
+        if (webhookConfig.secretSource !== "ssm") {
+          Logging.logWarning(
+            `WARNING: The webhook secret of ${functionName} will be available on the next deploy. Use secretSource 'ssm' to have it available right away.`
+          );
+        } else {
+          this.injectWebhookSecret(webhookConfig, webhookFunction, undefined);
+        }
+        return undefined;
+      }
+      const stripe = this.getStripe();
+      webhook = await createIdempotently(
+        this.getIdempotencyKey("webhook", functionName, webhookParams),
+        (options) =>
+          stripe.webhookEndpoints.create(
+            { ...webhookParams, connect: webhookConfig.connect },
+            options
+          ),
+        (replayed) => this.isWebhookStale(replayed)
+      );
+      this.recordSnapshot("webhook", webhook.id, functionName);
+      Logging.logInfo(`Created webhook ${webhook.id}`);
+      if (!webhook.secret) {
+        throw new Error(`Webhook ${webhook.id} secret is missing`);
+      }
+      await this.putSsmParameter(
+        this.getSsmParameterName(webhookParams.metadata),
+        webhook.secret
+      );
+      webhookSecretEnvVarValue = webhook.secret;
+    }
+
+    this.injectWebhookSecret(
+      webhookConfig,
+      webhookFunction,
+      webhookSecretEnvVarValue
+    );
+    await this.injectPreviousWebhookSecret(webhookConfig, webhookFunction);
+    return webhook;
+  }
+
+  /**
+   * While a rotated secret is being retired the function accepts both the
+   * new and the previous secret
+   */
+  private async injectPreviousWebhookSecret(
+    webhookConfig: WebhookConfig,
+    webhookFunction: WebhookFunction
+  ) {
+    const { functionName, webhookSecretEnvVariableName } = webhookConfig;
+    const parameterName = this.getPreviousSsmParameterName(
+      this.getWebhookMetadata(functionName)
+    );
+    const previousSecret = await this.getSsmParameter(parameterName);
+    if (!previousSecret) {
+      return;
+    }
+    const previousEnvVariableName = `${webhookSecretEnvVariableName}_PREVIOUS`;
+    if (webhookConfig.secretSource === "ssm") {
+      webhookFunction.environment[previousEnvVariableName] = parameterName;
+      this.grantSsmParameterAccess(parameterName, webhookFunction);
+    } else {
+      webhookFunction.environment[previousEnvVariableName] = previousSecret;
+    }
+    this.addWebhookAccount(
+      webhookFunction,
+      webhookConfig,
+      previousEnvVariableName
+    );
+    Logging.logInfo(
+      `Previous webhook secret to ${functionName} varname ${previousEnvVariableName}`
+    );
+  }
+
+  /**
+   * Replace the endpoint of a webhook with a new one with the same URL and
+   * events, and so a new signing secret. The previous endpoint and secret are
+   * retired after the next deploy.
+   */
+  public async rotateWebhookSecret(functionName: string): Promise<string[]> {
+    const webhookConfig = this.webhooks.find(
+      (webhook) => webhook.functionName === functionName
+    );
+    if (!webhookConfig) {
+      return [];
+    }
+    const metadata = this.getWebhookMetadata(functionName);
+    const webhooks = (await this.getWebhooksFromStripe()).filter(
+      (webhook) => webhook.metadata.lambda === functionName
+    );
+    const current = webhooks.find((webhook) => !webhook.metadata.toBeDeleted);
+    if (!current) {
+      throw new Error(
+        `${Globals.pluginName}: Webhook for function ${functionName} not found in account ${this.accountId}, deploy it first`
+      );
+    }
+    if (webhooks.some((webhook) => webhook.metadata.toBeDeleted)) {
+      throw new Error(
+        `${Globals.pluginName}: A previous endpoint of ${functionName} in account ${this.accountId} is waiting to be retired, deploy before rotating again`
+      );
+    }
+    const currentSecret = await this.getSsmParameter(
+      this.getSsmParameterName(metadata)
+    );
+    if (!currentSecret) {
+      throw new Error(
+        `${Globals.pluginName}: Webhook secret of ${functionName} not found in account ${this.accountId}, deploy to recreate the webhook`
+      );
+    }
+
+    const replacementParams: Stripe.WebhookEndpointCreateParams = {
+      url: current.url,
+      enabled_events:
+        current.enabled_events as Stripe.WebhookEndpointCreateParams.EnabledEvent[],
+      connect: Boolean(metadata.connect),
+      metadata,
+    };
+    const stripe = this.getStripe();
+    // the endpoint being replaced tells apart successive rotations
+    const replacement = await createIdempotently(
+      this.getIdempotencyKey(
+        "webhook",
+        functionName,
+        replacementParams,
+        current.id
+      ),
+      (options) => stripe.webhookEndpoints.create(replacementParams, options),
+      (replayed) => this.isWebhookStale(replayed)
+    );
+    Logging.logInfo(`Created webhook ${replacement.id}`);
+    if (!replacement.secret) {
+      throw new Error(`Webhook ${replacement.id} secret is missing`);
+    }
+    await this.putSsmParameter(
+      this.getPreviousSsmParameterName(metadata),
+      currentSecret
+    );
+    await this.putSsmParameter(
+      this.getSsmParameterName(metadata),
+      replacement.secret
+    );
+    await this.getStripe().webhookEndpoints.update(current.id, {
+      metadata: { ...current.metadata, toBeDeleted: "true" },
+    });
+    Logging.logInfo(`Marked webhook ${current.id} for deletion`);
+
+    return [
+      `Rotated the webhook secret of ${functionName} in account ${this.accountId}: ` +
+        `${replacement.id} replaces ${current.id}, which is retired on the next deploy`,
+    ];
+  }
+
+  /**
+   * Compare the managed objects in Stripe with the config without changing
+   * anything. Objects that are waiting to be archived or deleted after the
+   * next deploy are expected to differ and are left out.
+   */
+  public async detectDrift(): Promise<DriftEntry[]> {
+    this.driftEntries = [];
+    await this.detectWebhookDrift();
+    const products = await this.detectProductAndPriceDrift();
+    await this.detectPortalDrift();
+    await this.detectCouponAndPromotionCodeDrift(products);
+    await this.detectPaymentLinkDrift();
+    await this.detectFeatureDrift(products);
+    return this.driftEntries;
+  }
+
+  private recordDrift(
+    entity: PlanEntity,
+    internalId: string,
+    object: { id: string } | undefined,
+    diff: FieldDiff[]
+  ) {
+    this.driftEntries.push({
+      accountId: this.accountId,
+      entity,
+      internalId,
+      stripeId: object?.id,
+      status: !object ? "missing" : diff.length > 0 ? "drifted" : "inSync",
+      diff,
+    });
+  }
+
+  private recordOrphans<
+    T extends { id: string; metadata: Stripe.Metadata; active?: boolean },
+  >(entity: PlanEntity, objects: T[], internalIds: string[]) {
+    for (const object of objects) {
+      const internalId = object.metadata.internalId ?? object.metadata.lambda;
+      if (object.active === false || internalIds.indexOf(internalId) !== -1) {
+        continue;
+      }
+      this.driftEntries.push({
+        accountId: this.accountId,
+        entity,
+        internalId,
+        stripeId: object.id,
+        status: "orphaned",
+        diff: [],
+      });
+    }
+  }
+
+  /**
+   * The object a config entry maps to, preferring an active one
+   */
+  private findManagedObject<
+    T extends { metadata: Stripe.Metadata; active?: boolean },
+  >(objects: T[], internalId: string): T | undefined {
+    const candidates = objects.filter(
+      (object) => object.metadata.internalId === internalId
+    );
+    return (
+      candidates.find((object) => object.active !== false) ?? candidates[0]
+    );
+  }
+
+  private async detectWebhookDrift() {
+    const webhooks = (await this.getWebhooksFromStripe()).filter(
+      (webhook) => !webhook.metadata.toBeDeleted
+    );
+    const needsStackOutputs = this.webhooks.some((webhookConfig) =>
+      isUrlFromStackOutputs(
+        webhookConfig,
+        this.getWebhookFunction(webhookConfig),
+        this.customDomain
+      )
+    );
+    const stackOutputs = needsStackOutputs
+      ? await this.getStackOutputs()
+      : undefined;
 
     for (const webhookConfig of this.webhooks) {
-      const { functionName, events, webhookSecretEnvVariableName } =
-        webhookConfig;
-      const webhookFunction = this.serverless.service.functions[functionName];
-      if (!webhookFunction) {
-        throw new Error(`Function ${functionName} not found`);
+      const { functionName, events } = webhookConfig;
+      const webhook = webhooks.find(
+        (hook) => hook.metadata.lambda === functionName
+      );
+      const diff = webhook
+        ? [
+            ...this.diffWebhook(
+              {
+                url: this.getWebhookUrl(webhookConfig, stackOutputs),
+                enabled_events: events,
+              },
+              webhook
+            ),
+            ...diffFields({ status: "enabled" }, webhook),
+            ...diffFields(
+              { connect: Boolean(webhookConfig.connect) },
+              { connect: webhook.metadata.connect === "true" }
+            ),
+          ]
+        : [];
+      this.recordDrift("webhook", functionName, webhook, diff);
+    }
+    this.recordOrphans(
+      "webhook",
+      webhooks,
+      this.webhooks.map((webhook) => webhook.functionName)
+    );
+  }
+
+  private async detectProductAndPriceDrift(): Promise<Stripe.Product[]> {
+    const products = (await this.getProductsFromStripe()).filter(
+      (product) => !product.metadata.toBeArchived
+    );
+    const prices = (await this.getPricesFromStripe()).filter(
+      (price) => !price.metadata.toBeArchived
+    );
+
+    for (const productConfig of this.products) {
+      const internalId = productConfig.internal.id;
+      const product = this.findManagedObject(products, internalId);
+      const productPrices = prices.filter(
+        (p) => product && p.product === product.id
+      );
+      const defaultPrice = productConfig.default_price
+        ? this.findManagedObject(productPrices, productConfig.default_price)
+        : undefined;
+      const diff = product
+        ? [
+            ...diffProduct(
+              productConfig,
+              product,
+              productConfig.default_price
+                ? (defaultPrice?.id ?? `<${productConfig.default_price}>`)
+                : undefined
+            ),
+            ...diffFields({ active: true }, product),
+          ]
+        : [];
+      this.recordDrift("product", internalId, product, diff);
+
+      for (const priceConfig of productConfig.prices) {
+        const price = this.findManagedObject(productPrices, priceConfig.id);
+        const priceDiff = price
+          ? [
+              ...diffPrice(priceConfig, price),
+              ...diffFields({ active: true }, price),
+            ]
+          : [];
+        this.recordDrift("price", priceConfig.id, price, priceDiff);
       }
-      if (!events) {
-        throw new Error(
-          `Function ${functionName} does not have any events defined`
+    }
+    this.recordOrphans(
+      "product",
+      products,
+      this.products.map((product) => product.internal.id)
+    );
+    this.recordOrphans(
+      "price",
+      prices,
+      this.products
+        .map((product) => product.prices.map((price) => price.id))
+        .reduce((all, ids) => [...all, ...ids], [])
+    );
+    return products;
+  }
+
+  private async detectPortalDrift() {
+    const portals = (await this.getPortalsFromStripe()).filter(
+      (portal) => !portal.metadata.toBeArchived
+    );
+    for (const portalConfig of this.billingPortals) {
+      const portal = this.findManagedObject(portals, portalConfig.internalId);
+      // products and prices have been compared before portals
+      const getStripeId = (entity: PlanEntity, internalId: string) =>
+        this.driftEntries.find(
+          (entry) => entry.entity === entity && entry.internalId === internalId
+        )?.stripeId;
+      const configuration = this.resolvePortalConfiguration(
+        portalConfig.configuration,
+        (productId) => getStripeId("product", productId),
+        (priceId) => getStripeId("price", priceId)
+      );
+      const diff = portal
+        ? diffFields({ ...configuration, active: true }, portal)
+        : [];
+      this.recordDrift("billingPortal", portalConfig.internalId, portal, diff);
+    }
+    this.recordOrphans(
+      "billingPortal",
+      portals,
+      this.billingPortals.map((portal) => portal.internalId)
+    );
+  }
+
+  private async detectCouponAndPromotionCodeDrift(products: Stripe.Product[]) {
+    const coupons = (await this.getCouponsFromStripe()).filter(
+      (coupon) => !coupon.metadata.toBeArchived
+    );
+    const promotionCodes = (await this.getPromotionCodesFromStripe()).filter(
+      (promotionCode) => !promotionCode.metadata.toBeArchived
+    );
+
+    for (const couponConfig of this.coupons) {
+      const coupon = this.findManagedObject(coupons, couponConfig.internalId);
+      const productIds = couponConfig.applies_to
+        ? couponConfig.applies_to.products.map((internalId) => {
+            const product = this.findManagedObject(products, internalId);
+            return product ? product.id : `<${internalId}>`;
+          })
+        : null;
+      const diff = coupon
+        ? [
+            ...diffCoupon(couponConfig, productIds, coupon),
+            ...diffFields({ name: couponConfig.name }, coupon),
+          ]
+        : [];
+      this.recordDrift("coupon", couponConfig.internalId, coupon, diff);
+    }
+    for (const promotionCodeConfig of this.promotionCodes) {
+      const promotionCode = this.findManagedObject(
+        promotionCodes,
+        promotionCodeConfig.internalId
+      );
+      const coupon = this.findManagedObject(
+        coupons,
+        promotionCodeConfig.coupon
+      );
+      const couponId = coupon ? coupon.id : `<${promotionCodeConfig.coupon}>`;
+      const diff = promotionCode
+        ? [
+            ...diffPromotionCode(promotionCodeConfig, couponId, promotionCode),
+            ...diffFields({ active: true }, promotionCode),
+          ]
+        : [];
+      this.recordDrift(
+        "promotionCode",
+        promotionCodeConfig.internalId,
+        promotionCode,
+        diff
+      );
+    }
+    this.recordOrphans(
+      "coupon",
+      coupons,
+      this.coupons.map((coupon) => coupon.internalId)
+    );
+    this.recordOrphans(
+      "promotionCode",
+      promotionCodes,
+      this.promotionCodes.map((promotionCode) => promotionCode.internalId)
+    );
+  }
+
+  private async detectPaymentLinkDrift() {
+    const links = (await this.getPaymentLinksFromStripe()).filter(
+      (link) => !link.metadata.toBeArchived
+    );
+    for (const linkConfig of this.paymentLinks) {
+      const link = this.findManagedObject(links, linkConfig.internalId);
+      // prices have been compared before payment links
+      const prices = linkConfig.line_items.map(
+        (item) =>
+          this.driftEntries.find(
+            (entry) =>
+              entry.entity === "price" && entry.internalId === item.price
+          )?.stripeId ?? `<${item.price}>`
+      );
+      const diff = link
+        ? [
+            ...diffFields({ prices }, { prices: getLinkPrices(link) }),
+            ...diffPaymentLink(
+              linkConfig,
+              link,
+              this.getPaymentLinkRedirectUrl(linkConfig)
+            ),
+            ...diffFields({ active: true }, link),
+          ]
+        : [];
+      this.recordDrift("paymentLink", linkConfig.internalId, link, diff);
+    }
+    this.recordOrphans(
+      "paymentLink",
+      links,
+      this.paymentLinks.map((link) => link.internalId)
+    );
+  }
+
+  private async detectFeatureDrift(products: Stripe.Product[]) {
+    const stripe = this.getStripe();
+    const features = (await this.getFeaturesFromStripe()).filter(
+      (feature) => !feature.metadata.toBeArchived
+    );
+    for (const featureConfig of this.features) {
+      const feature = this.findManagedObject(
+        features,
+        featureConfig.lookup_key
+      );
+      const diff = feature ? diffFeature(featureConfig, feature) : [];
+      this.recordDrift("feature", featureConfig.lookup_key, feature, diff);
+    }
+    this.recordOrphans(
+      "feature",
+      features,
+      this.features.map((feature) => feature.lookup_key)
+    );
+
+    for (const productConfig of this.products) {
+      const product = this.findManagedObject(
+        products,
+        productConfig.internal.id
+      );
+      // a missing product has been reported with the products
+      if (!product) {
+        continue;
+      }
+      const attached = await getProductFeaturesFromStripe(stripe, product.id);
+      this.recordDrift(
+        "productFeature",
+        productConfig.internal.id,
+        product,
+        diffFields(
+          { entitlements: [...(productConfig.entitlements ?? [])].sort() },
+          { entitlements: getAttachedLookupKeys(attached) }
+        )
+      );
+    }
+  }
+
+  /**
+   * Match objects that were created outside of this plugin, e.g. in the
+   * dashboard, to config entries without a managed object, by the stripeId of
+   * the entry or by name/URL
+   */
+  public async findImportMatches(): Promise<ImportMatch[]> {
+    this.importMatches = [];
+    await this.findWebhookImportMatches();
+    await this.findProductAndPriceImportMatches();
+    await this.findPortalImportMatches();
+    return this.importMatches;
+  }
+
+  private addImportMatch(match: Omit<ImportMatch, "accountId">) {
+    this.importMatches.push({
+      accountId: this.accountId,
+      connectedAccountId: this.connectedAccountId,
+      ...match,
+    });
+  }
+
+  /**
+   * Pick the object to import for a config entry. An explicit stripeId must
+   * point to an object that is not managed yet.
+   */
+  private findImportCandidate<
+    T extends { id: string; metadata: Stripe.Metadata },
+  >(
+    entity: ImportMatch["entity"],
+    stripeId: string | undefined,
+    candidates: T[],
+    matches: (candidate: T) => boolean
+  ): T | undefined {
+    const unmanaged = candidates.filter(
+      (candidate) =>
+        !candidate.metadata.managedBy &&
+        !this.importMatches.some((match) => match.stripeId === candidate.id)
+    );
+    if (!stripeId) {
+      return unmanaged.find(matches);
+    }
+    const candidate = unmanaged.find((c) => c.id === stripeId);
+    if (!candidate) {
+      throw new Error(
+        `${Globals.pluginName}: ${entity} ${stripeId} not found in account ${this.getAccountLabel()} or already managed`
+      );
+    }
+    return candidate;
+  }
+
+  private async findWebhookImportMatches() {
+    const stripe = this.getStripe();
+    const webhooks = await listAll((params) =>
+      stripe.webhookEndpoints.list(params)
+    );
+    const needsStackOutputs = this.webhooks.some((webhookConfig) =>
+      isUrlFromStackOutputs(
+        webhookConfig,
+        this.getWebhookFunction(webhookConfig),
+        this.customDomain
+      )
+    );
+    const stackOutputs = needsStackOutputs
+      ? await this.getStackOutputs()
+      : undefined;
+    // endpoints created in the dashboard have no stripeAccountKey
+    const withoutQuery = (url: string) => url.split("?")[0];
+
+    for (const webhookConfig of this.webhooks) {
+      const { functionName, stripeId } = webhookConfig;
+      const isManaged = webhooks.some(
+        (webhook) =>
+          this.isStripeEntityManagedByThisStack(webhook) &&
+          webhook.metadata.lambda === functionName
+      );
+      if (isManaged) {
+        continue;
+      }
+      const webhookUrl = this.getWebhookUrl(webhookConfig, stackOutputs);
+      const webhook = this.findImportCandidate(
+        "webhook",
+        stripeId,
+        webhooks,
+        (w) =>
+          webhookUrl !== undefined &&
+          withoutQuery(w.url) === withoutQuery(webhookUrl)
+      );
+      if (webhook) {
+        this.addImportMatch({
+          entity: "webhook",
+          internalId: functionName,
+          stripeId: webhook.id,
+          matchedBy: stripeId ? "stripeId" : "url",
+        });
+      }
+    }
+  }
+
+  private async findProductAndPriceImportMatches() {
+    const products = await getAllProductsFromStripe(this.getStripe());
+
+    for (const productConfig of this.products) {
+      const internalId = productConfig.internal.id;
+      let product = products.find(
+        (p) =>
+          this.isStripeEntityManagedByThisStack(p) &&
+          p.metadata.internalId === internalId
+      );
+      if (!product) {
+        product = this.findImportCandidate(
+          "product",
+          productConfig.stripeId,
+          products,
+          (p) => p.active && p.name === productConfig.name
         );
+        if (!product) {
+          continue;
+        }
+        this.addImportMatch({
+          entity: "product",
+          internalId,
+          stripeId: product.id,
+          matchedBy: productConfig.stripeId ? "stripeId" : "name",
+        });
       }
-      if (!webhookSecretEnvVariableName) {
-        throw new Error(`webhookSecretEnvVariableName is required`);
+
+      const prices = await getAllPricesFromStripe(this.getStripe(), product.id);
+      for (const priceConfig of productConfig.prices) {
+        if (this.findMatchingPrice(priceConfig, prices)) {
+          continue;
+        }
+        const price = this.findImportCandidate(
+          "price",
+          priceConfig.stripeId,
+          prices,
+          (p) => p.active && diffUnmanagedPrice(priceConfig, p).length === 0
+        );
+        if (price) {
+          this.addImportMatch({
+            entity: "price",
+            internalId: priceConfig.id,
+            stripeId: price.id,
+            matchedBy: priceConfig.stripeId ? "stripeId" : "attributes",
+          });
+        }
       }
+    }
+  }
 
-      const webhookUrl = this.getWebhookUrl(webhookFunction);
+  private async findPortalImportMatches() {
+    const portals = await getAllPortalsFromStripe(this.getStripe());
 
-      let webhook = webhooksBefore.find(
-        (hook) => hook.metadata.lambda === functionName
+    for (const portalConfig of this.billingPortals) {
+      const { internalId, stripeId } = portalConfig;
+      const defaultReturnUrl = portalConfig.configuration.default_return_url;
+      const isManaged = portals.some(
+        (portal) =>
+          this.isStripeEntityManagedByThisStack(portal) &&
+          portal.metadata.internalId === internalId
+      );
+      if (isManaged) {
+        continue;
+      }
+      const portal = this.findImportCandidate(
+        "billingPortal",
+        stripeId,
+        portals,
+        (p) =>
+          p.active &&
+          Boolean(defaultReturnUrl) &&
+          p.default_return_url === defaultReturnUrl
       );
+      if (portal) {
+        this.addImportMatch({
+          entity: "billingPortal",
+          internalId,
+          stripeId: portal.id,
+          matchedBy: stripeId ? "stripeId" : "url",
+        });
+      }
+    }
+  }
 
-      const webhookParams = {
-        url: webhookUrl,
-        enabled_events: events,
-        metadata: this.getWebhookMetadata(functionName),
-      };
+  /**
+   * Write the ownership metadata of this stage to the matched objects and
+   * store the given webhook secrets in SSM
+   */
+  public async importStripeObjects(
+    matches: ImportMatch[],
+    webhookSecrets: { [functionName: string]: string }
+  ): Promise<string[]> {
+    const stripe = this.getStripe();
+    const summary: string[] = [];
+    const metadataBase = this.getOwnershipMetadata();
 
-      const client = new SSMClient({ region: this.region });
-      let createNewWebhook = !webhook;
-      let webhookSecretEnvVarValue: string;
-      if (!createNewWebhook) {
-        try {
-          const response = await client.send(
-            new GetParameterCommand({
-              Name: this.getSsmParameterName(webhookParams.metadata),
-              WithDecryption: true,
-            })
-          );
-          webhookSecretEnvVarValue = response.Parameter?.Value;
-        } catch (e) {
-          if (e.name === "ParameterNotFound") {
-            createNewWebhook = true;
-          } else {
-            throw e;
-          }
-        }
-        if (!webhookSecretEnvVarValue) {
-          Logging.logWarning(
-            `WARNING: Webhook secret not found for ${functionName} ${webhookParams.metadata.lambda}, creating webhook again.`
+    for (const match of matches) {
+      const { internalId, stripeId } = match;
+      if (match.entity === "webhook") {
+        const metadata = this.getWebhookMetadata(internalId);
+        await stripe.webhookEndpoints.update(stripeId, { metadata });
+        const secret = webhookSecrets[internalId];
+        if (secret) {
+          await this.putSsmParameter(
+            this.getSsmParameterName(metadata),
+            secret
           );
-          createNewWebhook = true;
         } else {
-          await this.getStripe().webhookEndpoints.update(
-            webhook.id,
-            webhookParams
+          summary.push(
+            `WARNING: No secret given for the webhook of ${internalId}, the endpoint is replaced on the next deploy`
           );
-          Logging.logInfo(`Updated webhook ${webhook.id}`);
         }
+      } else if (match.entity === "product") {
+        await stripe.products.update(stripeId, {
+          metadata: { ...metadataBase, internalId },
+        });
+      } else if (match.entity === "price") {
+        const priceConfig = this.products
+          .map((product) => product.prices)
+          .reduce((all, prices) => [...all, ...prices], [])
+          .find((price) => price.id === internalId);
+        await stripe.prices.update(stripeId, {
+          metadata: {
+            ...metadataBase,
+            country: priceConfig.countryCode,
+            internalId,
+          },
+        });
+      } else {
+        await stripe.billingPortal.configurations.update(stripeId, {
+          metadata: { ...metadataBase, internalId },
+        });
       }
-      if (createNewWebhook) {
-        webhook = await this.getStripe().webhookEndpoints.create(webhookParams);
-        Logging.logInfo(`Created webhook ${webhook.id}`);
-        if (!webhook.secret) {
-          throw new Error(`Webhook ${webhook.id} secret is missing`);
-        }
-        await client.send(
-          new PutParameterCommand({
-            Name: this.getSsmParameterName(webhookParams.metadata),
-            Description: `Webhook secret automatically created by ${Globals.pluginName}`,
-            Value: webhook.secret,
-            Type: "SecureString",
-            Overwrite: true,
-          })
-        );
-        webhookSecretEnvVarValue = webhook.secret;
+      Logging.logInfo(`Imported ${match.entity} ${stripeId}`);
+      summary.push(
+        `Imported ${match.entity} ${internalId} (${stripeId}) in account ${this.getAccountLabel()}`
+      );
+    }
+    return summary;
+  }
+
+  private getSsmClient(): SSMClient {
+    if (!this._ssmClient) {
+      this._ssmClient = new SSMClient({ region: this.region });
+    }
+    return this._ssmClient;
+  }
+
+  private async getSsmParameter(name: string): Promise<string | undefined> {
+    try {
+      const response = await this.getSsmClient().send(
+        new GetParameterCommand({ Name: name, WithDecryption: true })
+      );
+      return response.Parameter?.Value;
+    } catch (e) {
+      if (e.name === "ParameterNotFound") {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  private async putSsmParameter(name: string, value: string) {
+    await this.getSsmClient().send(
+      new PutParameterCommand({
+        Name: name,
+        Description: `Webhook secret automatically created by ${Globals.pluginName}`,
+        Value: value,
+        Type: "SecureString",
+        Overwrite: true,
+      })
+    );
+  }
+
+  private async deleteSsmParameter(name: string) {
+    try {
+      await this.getSsmClient().send(
+        new DeleteParameterCommand({ Name: name })
+      );
+      Logging.logInfo(`Deleted parameter ${name}`);
+    } catch (e) {
+      if (e.name !== "ParameterNotFound") {
+        throw e;
       }
-      webhooksCreatedOrUpdated.push(webhook);
+    }
+  }
 
-      webhookFunction.environment = webhookFunction.environment || {};
+  private injectWebhookSecret(
+    webhookConfig: WebhookConfig,
+    webhookFunction: WebhookFunction,
+    webhookSecretEnvVarValue: string | undefined
+  ) {
+    const { functionName, webhookSecretEnvVariableName } = webhookConfig;
+    webhookFunction.environment = webhookFunction.environment || {};
+    if (webhookConfig.secretSource === "ssm") {
+      const parameterName = this.getSsmParameterName(
+        this.getWebhookMetadata(functionName)
+      );
+      webhookFunction.environment[webhookSecretEnvVariableName] = parameterName;
+      this.grantSsmParameterAccess(parameterName, webhookFunction);
+      Logging.logInfo(
+        `Webhook secret parameter ${parameterName} to ${functionName} varname ${webhookSecretEnvVariableName}`
+      );
+    } else {
       webhookFunction.environment[webhookSecretEnvVariableName] =
         webhookSecretEnvVarValue;
       Logging.logInfo(
-        `Webhook secret: ${webhookSecretEnvVarValue} to ${functionName} varname ${webhookSecretEnvVariableName}`
+        `Webhook secret to ${functionName} varname ${webhookSecretEnvVariableName}`
       );
     }
+    this.addWebhookAccount(webhookFunction, webhookConfig);
+  }
 
-    const webhooksToBeDeleted = webhooksBefore.filter(
-      (w) => !webhooksCreatedOrUpdated.some((wc) => wc.id === w.id)
+  /**
+   * The signing secret of the deployed endpoint of a webhook, or undefined
+   * when it has not been deployed or SSM can not be read
+   */
+  public async getDeployedWebhookSecret(
+    functionName: string
+  ): Promise<string | undefined> {
+    try {
+      return await this.getSsmParameter(
+        this.getSsmParameterName(this.getWebhookMetadata(functionName))
+      );
+    } catch (e) {
+      Logging.logInfo(
+        `Could not read the webhook secret of ${functionName}: ${e.message}`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * The event types to replay to the endpoint of a webhook, undefined for
+   * every type of an endpoint enabled for all events
+   *
+   * @param types only replay these types, all enabled types when empty
+   */
+  public async getReplayTypes(
+    functionName: string,
+    types: string[]
+  ): Promise<string[] | undefined> {
+    const endpoint = (await this.getWebhooksFromStripe()).find(
+      (webhook) =>
+        webhook.metadata.lambda === functionName &&
+        !webhook.metadata.toBeDeleted
     );
-    Logging.logInfo(
-      `Found ${webhooksToBeDeleted.length} webhooks not in config, marking them for deletion`
+    if (!endpoint) {
+      throw new Error(
+        `${Globals.pluginName}: Webhook for function ${functionName} not found in account ${this.accountId}, deploy it first`
+      );
+    }
+    if (endpoint.metadata.connect) {
+      // the events of connected accounts are only listed per account
+      throw new Error(
+        `${Globals.pluginName}: Replaying the events of connected accounts is not supported`
+      );
+    }
+    try {
+      return selectReplayTypes(endpoint.enabled_events, types);
+    } catch (e) {
+      throw new Error(`${Globals.pluginName}: ${functionName}: ${e.message}`);
+    }
+  }
+
+  /**
+   * The events of the given types since a time, oldest first
+   */
+  public async listReplayEvents(
+    since: number,
+    types: string[] | undefined
+  ): Promise<Stripe.Event[]> {
+    const stripe = this.getStripe();
+    // Stripe filters by at most 20 types
+    const events = await listAll((params) => stripe.events.list(params), {
+      created: { gte: since },
+      ...(types && types.length <= 20 ? { types } : {}),
+    });
+    return events
+      .filter((event) => !types || types.indexOf(event.type) !== -1)
+      .reverse();
+  }
+
+  /**
+   * Invoke the deployed function of a webhook with an event, signed the way
+   * Stripe signs it for the endpoint
+   */
+  public async replayEvent(
+    functionName: string,
+    event: Stripe.Event,
+    secret: string
+  ): Promise<WebhookResponse> {
+    const payload = JSON.stringify(event, null, 2);
+    const request = getWebhookRequest(
+      payload,
+      signPayload(payload, secret),
+      this.accountId
     );
-    // mar webhooks that are not in config for deletion
-    // deletion happens after deploy
-    for (const webhook of webhooksToBeDeleted) {
-      await this.getStripe().webhookEndpoints.update(webhook.id, {
-        metadata: {
-          ...webhook.metadata,
-          toBeDeleted: "true",
-        },
+    const response = await this.serverless
+      .getProvider("aws")
+      .request<{ Payload: Buffer | string; FunctionError?: string }>(
+        "Lambda",
+        "invoke",
+        {
+          FunctionName: this.serverless.service.functions[functionName].name,
+          Payload: JSON.stringify(request),
+        }
+      );
+    const result = JSON.parse(response.Payload.toString());
+    if (response.FunctionError) {
+      return {
+        statusCode: 500,
+        body: result.errorMessage ?? response.FunctionError,
+      };
+    }
+    return result;
+  }
+
+  /**
+   * Find the items of renewing subscriptions on prices of the stage that no
+   * longer match the config, e.g. after the amount of a price was changed.
+   * The replacement is the price config with the same id, or else the only
+   * price of the product for the same country, currency and interval.
+   */
+  public async findPriceMigrations(): Promise<PriceMigration[]> {
+    const products = await this.getProductsFromStripe();
+    const prices = await this.getPricesFromStripe();
+    const current = this.products
+      .map((productConfig) => {
+        const product = this.findManagedObject(
+          products,
+          productConfig.internal.id
+        );
+        return productConfig.prices.map((priceConfig) => ({
+          product: productConfig.internal.id,
+          productId: product?.id,
+          priceConfig,
+          price: this.findMatchingPrice(
+            priceConfig,
+            prices.filter(
+              (p) => p.active && product && p.product === product.id
+            )
+          ),
+        }));
+      })
+      .reduce((all, entries) => [...all, ...entries], []);
+    const removed = prices.filter(
+      (price) => !current.some((entry) => entry.price?.id === price.id)
+    );
+
+    const stripe = this.getStripe();
+    const migrations: PriceMigration[] = [];
+    for (const price of removed) {
+      const product = products.find((p) => p.id === price.product);
+      const candidates = current.filter(
+        (entry) => product && entry.productId === product.id
+      );
+      const sameId = candidates.find(
+        (entry) => entry.priceConfig.id === price.metadata.internalId
+      );
+      const similar = candidates.filter(
+        (entry) =>
+          entry.priceConfig.countryCode === price.metadata.country &&
+          entry.priceConfig.currency.toLowerCase() === price.currency &&
+          (entry.priceConfig.interval ?? null) ===
+            (price.recurring?.interval ?? null) &&
+          (entry.priceConfig.interval_count ?? 1) ===
+            (price.recurring?.interval_count ?? 1)
+      );
+      const replacement =
+        sameId ?? (similar.length === 1 ? similar[0] : undefined);
+
+      const subscriptions = await listAll(
+        (params) => stripe.subscriptions.list(params),
+        { price: price.id, status: "all" as const }
+      );
+      for (const subscription of subscriptions) {
+        if (MIGRATED_STATUSES.indexOf(subscription.status) === -1) {
+          continue;
+        }
+        for (const item of subscription.items.data) {
+          if (item.price.id !== price.id) {
+            continue;
+          }
+          migrations.push({
+            subscription: subscription.id,
+            item: item.id,
+            product: product?.metadata.internalId ?? (price.product as string),
+            country: price.metadata.country,
+            from: price.id,
+            replacement: replacement?.priceConfig.id,
+            to: replacement?.price?.id,
+          });
+        }
+      }
+    }
+    return migrations;
+  }
+
+  /**
+   * Move the items of a subscription to their replacement prices in one
+   * update, so the customer gets a single proration
+   */
+  public async migrateSubscription(
+    migrations: PriceMigration[],
+    prorationBehavior: ProrationBehavior
+  ): Promise<void> {
+    await this.getStripe().subscriptions.update(migrations[0].subscription, {
+      items: migrations.map((migration) => ({
+        id: migration.item,
+        price: migration.to,
+      })),
+      proration_behavior: prorationBehavior,
+    });
+  }
+
+  /**
+   * Give the function the secret events are signed with for `invoke local`,
+   * which does not run the packaging hooks that normally inject it
+   */
+  public injectLocalWebhookSecret(
+    webhookConfig: WebhookConfig,
+    secret: string
+  ) {
+    this.injectWebhookSecret(
+      { ...webhookConfig, secretSource: "environment" },
+      this.getWebhookFunction(webhookConfig),
+      secret
+    );
+  }
+
+  /**
+   * Webhooks served from the default API Gateway URL or a function URL can
+   * only be created or updated once the stack outputs are known
+   */
+  private async syncWebhooksFromStackOutputs() {
+    const webhookConfigs = this.webhooks.filter((webhookConfig) =>
+      isUrlFromStackOutputs(
+        webhookConfig,
+        this.getWebhookFunction(webhookConfig),
+        this.customDomain
+      )
+    );
+    if (webhookConfigs.length === 0) {
+      return;
+    }
+    const stackOutputs = await this.getStackOutputs();
+    const webhooksBefore = await this.getWebhooksFromStripe();
+    for (const webhookConfig of webhookConfigs) {
+      const webhookUrl = this.getWebhookUrl(webhookConfig, stackOutputs);
+      if (!webhookUrl) {
+        throw new Error(
+          `${Globals.pluginName}: URL of function ${webhookConfig.functionName} not found in stack outputs`
+        );
+      }
+      await this.syncWebhook(webhookConfig, webhookUrl, webhooksBefore);
+    }
+  }
+
+  private diffWebhook(
+    webhookParams: Pick<Stripe.WebhookEndpointCreateParams, "url"> & {
+      enabled_events: Stripe.Event.Type[];
+    },
+    webhook: Stripe.WebhookEndpoint
+  ): FieldDiff[] {
+    const diff = diffFields(
+      {
+        url: webhookParams.url,
+        enabled_events: [...webhookParams.enabled_events].sort(),
+      },
+      {
+        url: webhook.url,
+        enabled_events: [...webhook.enabled_events].sort(),
+      }
+    );
+    if (webhook.metadata.toBeDeleted) {
+      diff.push({
+        field: "metadata.toBeDeleted",
+        before: webhook.metadata.toBeDeleted,
+        after: undefined,
       });
-      Logging.logInfo(`Marked webhook ${webhook.id} for deletion`);
     }
+    return diff;
   }
 
   public deploymentSummary(
     activeWebhooks: Stripe.WebhookEndpoint[],
-    webhooksDeleted: DeletedWebhook[]
+    webhooksDeleted: DeletedWebhook[],
+    archived: ArchivedEntity[]
   ): DeploymentSummary {
     const TAB = "  ";
     const NEWLINE = `\n${TAB}`;
@@ -637,6 +4009,7 @@ export class ServerlessStripe {
         `webhookId:${NEWLINE}${TAB}${webhook.id}${NEWLINE}` +
         `lambda:${NEWLINE}${TAB}${metadata.lambda}${NEWLINE}` +
         `url:${NEWLINE}${TAB}${webhook.url}${NEWLINE}` +
+        (metadata.connect ? `connect:${NEWLINE}${TAB}true${NEWLINE}` : "") +
         `events:${NEWLINE}${TAB}${webhook.enabled_events.join(
           `${NEWLINE}${TAB}`
         )}${NEWLINE}`
@@ -652,7 +4025,6 @@ export class ServerlessStripe {
       );
     });
 
-    // NOTE these do not get currently get printed when functions are 1st packaged and then deployed separately
     const activeProducts = this.stripeProducts.map((productEntry) => {
       return (
         `PRODUCT${NEWLINE}` +
@@ -667,11 +4039,50 @@ export class ServerlessStripe {
           .join(`${NEWLINE}${TAB}`)}`
       );
     });
+    const activeCoupons = this.stripeCoupons.map((coupon) => {
+      return (
+        `COUPON${NEWLINE}` +
+        `couponId:${NEWLINE}${TAB}${coupon.id}${NEWLINE}` +
+        `internalId:${NEWLINE}${TAB}${coupon.metadata.internalId}${NEWLINE}`
+      );
+    });
+    const activePromotionCodes = this.stripePromotionCodes.map(
+      (promotionCode) => {
+        return (
+          `PROMOTION CODE${NEWLINE}` +
+          `promotionCodeId:${NEWLINE}${TAB}${promotionCode.id}${NEWLINE}` +
+          `code:${NEWLINE}${TAB}${promotionCode.code}${NEWLINE}` +
+          `internalId:${NEWLINE}${TAB}${promotionCode.metadata.internalId}${NEWLINE}`
+        );
+      }
+    );
+    const activePaymentLinks = this.stripePaymentLinks.map((link) => {
+      return (
+        `PAYMENT LINK${NEWLINE}` +
+        `paymentLinkId:${NEWLINE}${TAB}${link.id}${NEWLINE}` +
+        `url:${NEWLINE}${TAB}${link.url}${NEWLINE}` +
+        `internalId:${NEWLINE}${TAB}${link.metadata.internalId}${NEWLINE}`
+      );
+    });
+    const archivedList = archived.map((entry) => {
+      return (
+        `ARCHIVE${NEWLINE}` +
+        `type:${NEWLINE}${TAB}${entry.entity}${NEWLINE}` +
+        `id:${NEWLINE}${TAB}${entry.stripeId}${NEWLINE}` +
+        `internalId:${NEWLINE}${TAB}${entry.internalId}${NEWLINE}`
+      );
+    });
     return [
-      `${NEWLINE}Stripe deployment summary for account ${this.accountId}:${NEWLINE}--------------------------------${NEWLINE}`,
+      `${NEWLINE}Stripe deployment summary for account ${this.getAccountLabel()}${
+        this.mode ? ` (${this.mode} mode)` : ""
+      }:${NEWLINE}--------------------------------${NEWLINE}`,
       ...webhookListCreated,
       ...webhookListDeleted,
       ...activeProducts,
+      ...activeCoupons,
+      ...activePromotionCodes,
+      ...activePaymentLinks,
+      ...archivedList,
     ];
   }
 }
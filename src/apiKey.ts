@@ -0,0 +1,58 @@
+import { ApiKeyConfig, ApiKeyReference } from "./types";
+
+export type ApiKeySources = {
+  getSsmParameter(name: string): Promise<string | undefined>;
+  getSecret(secretId: string): Promise<string | undefined>;
+};
+
+/**
+ * Pick the reference of the current stage, falling back to `default`
+ */
+export const selectApiKeyReference = (
+  apiKey: ApiKeyConfig,
+  stage: string
+): ApiKeyReference | undefined => {
+  if (typeof apiKey === "object" && "stages" in apiKey) {
+    return apiKey.stages[stage] ?? apiKey.default;
+  }
+  return apiKey;
+};
+
+export const describeApiKeyReference = (reference: ApiKeyReference): string => {
+  if (typeof reference === "string") {
+    return "apiKey";
+  }
+  if ("ssm" in reference) {
+    return `SSM parameter ${reference.ssm}`;
+  }
+  if ("secretsManager" in reference) {
+    return `secret ${reference.secretsManager}`;
+  }
+  return `environment variable ${reference.env}`;
+};
+
+/**
+ * Read the API key from the source the reference points to. Resolves to
+ * undefined when the source does not exist or is empty.
+ */
+export const resolveApiKeyReference = async (
+  reference: ApiKeyReference,
+  sources: ApiKeySources
+): Promise<string | undefined> => {
+  if (typeof reference === "string") {
+    return reference;
+  }
+  if ("ssm" in reference) {
+    return await sources.getSsmParameter(reference.ssm);
+  }
+  if ("secretsManager" in reference) {
+    const secret = await sources.getSecret(reference.secretsManager);
+    if (!secret || !reference.key) {
+      return secret;
+    }
+    // a secret holding several values as JSON
+    const values = JSON.parse(secret);
+    return values[reference.key];
+  }
+  return process.env[reference.env];
+};
@@ -1,28 +1,49 @@
 import { Stripe } from "stripe";
+import { listAll } from "./stripeClient";
 
+export const getAllPortalsFromStripe = async (
+  stripe: Stripe
+): Promise<Stripe.BillingPortal.Configuration[]> =>
+  await listAll((params) => stripe.billingPortal.configurations.list(params));
 
-export const getAllPortalsFromStripe = async (stripe: Stripe): Promise<Stripe.BillingPortal.Configuration[]> => {
-  const getAllPortalConfigurations = async (
-    starting_after?: string,
-    configurations: Stripe.BillingPortal.Configuration[] = []
-  ): Promise<Stripe.BillingPortal.Configuration[]> => {
-    const portalResponse = await stripe.billingPortal.configurations.list({
-      limit: 100, // adjust this number based on how many records you want to fetch per request
-      starting_after,
-    });
+/**
+ * The products and prices the subscription update feature of a portal
+ * configuration offers, as given in the config
+ */
+export const getPortalCatalogReferences = (
+  configuration: Stripe.BillingPortal.ConfigurationCreateParams
+): Stripe.BillingPortal.ConfigurationCreateParams.Features.SubscriptionUpdate.Product[] => {
+  const products = configuration.features?.subscription_update?.products;
+  return Array.isArray(products) ? products : [];
+};
 
-    const allConfigurations = [...configurations, ...portalResponse.data];
-
-    if (portalResponse.has_more) {
-      const lastConfiguration =
-      portalResponse.data[portalResponse.data.length - 1];
-      // Recursively fetch more products
-      return await getAllPortalConfigurations(lastConfiguration.id, allConfigurations);
-    }
-
-    return allConfigurations;
+/**
+ * Replace the products and prices of the subscription update feature with
+ * their Stripe ids, as the config refers to them by internal id
+ */
+export const resolvePortalConfiguration = (
+  configuration: Stripe.BillingPortal.ConfigurationCreateParams,
+  resolve: {
+    product(reference: string): string;
+    price(reference: string): string;
+  }
+): Stripe.BillingPortal.ConfigurationCreateParams => {
+  const products = getPortalCatalogReferences(configuration);
+  if (products.length === 0) {
+    return configuration;
+  }
+  return {
+    ...configuration,
+    features: {
+      ...configuration.features,
+      subscription_update: {
+        ...configuration.features.subscription_update,
+        products: products.map((product) => ({
+          ...product,
+          product: resolve.product(product.product),
+          prices: product.prices.map((price) => resolve.price(price)),
+        })),
+      },
+    },
   };
-
-  const portalConfigurations = await getAllPortalConfigurations();
-  return portalConfigurations;
-}
\ No newline at end of file
+};
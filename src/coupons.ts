@@ -0,0 +1,134 @@
+import { Stripe } from "stripe";
+import { StripeCouponConfig, StripePromotionCodeConfig } from "./types";
+import { diffFields, FieldDiff } from "./diff";
+import { listAll } from "./stripeClient";
+
+export const getAllCouponsFromStripe = async (
+  stripe: Stripe
+): Promise<Stripe.Coupon[]> =>
+  await listAll((params) => stripe.coupons.list(params), {
+    // applies_to is part of the identity of a coupon
+    expand: ["data.applies_to"],
+  });
+
+export const getAllPromotionCodesFromStripe = async (
+  stripe: Stripe
+): Promise<Stripe.PromotionCode[]> =>
+  await listAll((params) => stripe.promotionCodes.list(params));
+
+/**
+ * Coupons can not be edited apart from their name and metadata, so a change
+ * to any of these fields creates a new coupon.
+ */
+const getCouponConfigIdentity = (
+  config: StripeCouponConfig,
+  productIds: string[] | null
+) => ({
+  percent_off: config.percent_off ?? null,
+  amount_off: config.amount_off ?? null,
+  currency: config.currency ? config.currency.toLowerCase() : null,
+  duration: config.duration,
+  duration_in_months: config.duration_in_months ?? null,
+  max_redemptions: config.max_redemptions ?? null,
+  redeem_by: config.redeem_by ?? null,
+  applies_to: productIds ? [...productIds].sort() : null,
+});
+
+const getCouponIdentity = (
+  coupon: Stripe.Coupon
+): ReturnType<typeof getCouponConfigIdentity> => ({
+  percent_off: coupon.percent_off,
+  amount_off: coupon.amount_off,
+  currency: coupon.currency,
+  duration: coupon.duration,
+  duration_in_months: coupon.duration_in_months,
+  max_redemptions: coupon.max_redemptions,
+  redeem_by: coupon.redeem_by,
+  applies_to: coupon.applies_to ? [...coupon.applies_to.products].sort() : null,
+});
+
+export const diffCoupon = (
+  config: StripeCouponConfig,
+  productIds: string[] | null,
+  coupon: Stripe.Coupon
+): FieldDiff[] =>
+  diffFields(
+    getCouponConfigIdentity(config, productIds),
+    getCouponIdentity(coupon)
+  );
+
+export const getCouponCreateParams = (
+  config: StripeCouponConfig,
+  productIds: string[] | null,
+  metadata: { [key: string]: string }
+): Stripe.CouponCreateParams => ({
+  name: config.name,
+  percent_off: config.percent_off,
+  amount_off: config.amount_off,
+  currency: config.currency,
+  duration: config.duration,
+  duration_in_months: config.duration_in_months,
+  max_redemptions: config.max_redemptions,
+  redeem_by: config.redeem_by,
+  applies_to: productIds ? { products: productIds } : undefined,
+  metadata: { ...config.metadata, ...metadata },
+});
+
+/**
+ * Like coupons, promotion codes can only be activated, deactivated and have
+ * their metadata changed after creation.
+ */
+const getPromotionCodeConfigIdentity = (
+  config: StripePromotionCodeConfig,
+  couponId: string
+) => ({
+  code: config.code,
+  coupon: couponId,
+  max_redemptions: config.max_redemptions ?? null,
+  expires_at: config.expires_at ?? null,
+  restrictions: {
+    first_time_transaction:
+      config.restrictions?.first_time_transaction ?? false,
+    minimum_amount: config.restrictions?.minimum_amount ?? null,
+    minimum_amount_currency: config.restrictions?.minimum_amount_currency
+      ? config.restrictions.minimum_amount_currency.toLowerCase()
+      : null,
+  },
+});
+
+const getPromotionCodeIdentity = (
+  promotionCode: Stripe.PromotionCode
+): ReturnType<typeof getPromotionCodeConfigIdentity> => ({
+  code: promotionCode.code,
+  coupon: promotionCode.coupon.id,
+  max_redemptions: promotionCode.max_redemptions,
+  expires_at: promotionCode.expires_at,
+  restrictions: {
+    first_time_transaction: promotionCode.restrictions.first_time_transaction,
+    minimum_amount: promotionCode.restrictions.minimum_amount,
+    minimum_amount_currency: promotionCode.restrictions.minimum_amount_currency,
+  },
+});
+
+export const diffPromotionCode = (
+  config: StripePromotionCodeConfig,
+  couponId: string,
+  promotionCode: Stripe.PromotionCode
+): FieldDiff[] =>
+  diffFields(
+    getPromotionCodeConfigIdentity(config, couponId),
+    getPromotionCodeIdentity(promotionCode)
+  );
+
+export const getPromotionCodeCreateParams = (
+  config: StripePromotionCodeConfig,
+  couponId: string,
+  metadata: { [key: string]: string }
+): Stripe.PromotionCodeCreateParams => ({
+  coupon: couponId,
+  code: config.code,
+  max_redemptions: config.max_redemptions,
+  expires_at: config.expires_at,
+  restrictions: config.restrictions,
+  metadata: { ...config.metadata, ...metadata },
+});
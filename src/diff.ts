@@ -0,0 +1,67 @@
+export type FieldDiff = {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Compare the fields we send to Stripe against the object Stripe returned.
+ * Only keys present in `desired` are compared, so read-only fields of the
+ * Stripe object never show up as differences.
+ */
+export const diffFields = (
+  desired: unknown,
+  actual: unknown,
+  path = ""
+): FieldDiff[] => {
+  if (desired === undefined) {
+    return [];
+  }
+  if (Array.isArray(desired)) {
+    if (!Array.isArray(actual) || actual.length !== desired.length) {
+      return [{ field: path, before: actual, after: desired }];
+    }
+    const changed = desired.some(
+      (item, index) => diffFields(item, actual[index]).length > 0
+    );
+    return changed ? [{ field: path, before: actual, after: desired }] : [];
+  }
+  if (isPlainObject(desired)) {
+    if (!isPlainObject(actual)) {
+      return [{ field: path, before: actual, after: desired }];
+    }
+    const diffs: FieldDiff[] = [];
+    for (const key of Object.keys(desired)) {
+      diffs.push(
+        ...diffFields(desired[key], actual[key], path ? `${path}.${key}` : key)
+      );
+    }
+    return diffs;
+  }
+  if (desired === actual || (desired === null && actual === undefined)) {
+    return [];
+  }
+  return [{ field: path, before: actual, after: desired }];
+};
+
+/**
+ * The values of `actual` at the keys present in `desired`, i.e. the update
+ * that undoes sending `desired`. Fields missing from `actual` become null,
+ * which Stripe treats as unsetting them.
+ */
+export const pickFields = (desired: unknown, actual: unknown): unknown => {
+  if (actual === undefined) {
+    return null;
+  }
+  if (!isPlainObject(desired) || !isPlainObject(actual)) {
+    return actual;
+  }
+  const picked: Record<string, unknown> = {};
+  for (const key of Object.keys(desired)) {
+    picked[key] = pickFields(desired[key], actual[key]);
+  }
+  return picked;
+};
@@ -0,0 +1,67 @@
+import { FieldDiff } from "./diff";
+import { formatAccount, PlanEntity } from "./plan";
+
+// missing: a config entry without a managed object
+// orphaned: a managed object without a config entry
+export type DriftStatus = "inSync" | "drifted" | "missing" | "orphaned";
+
+export type DriftEntry = {
+  accountId: string;
+  connectedAccountId?: string;
+  entity: PlanEntity;
+  // function name for webhooks, internal id for everything else
+  internalId: string;
+  stripeId?: string;
+  status: DriftStatus;
+  // live value in before, config value in after
+  diff: FieldDiff[];
+};
+
+export const hasDrift = (entries: DriftEntry[]): boolean =>
+  entries.some((entry) => entry.status !== "inSync");
+
+const STATUS_SYMBOLS: Record<DriftStatus, string> = {
+  inSync: "=",
+  drifted: "~",
+  missing: "?",
+  orphaned: "!",
+};
+
+const formatValue = (value: unknown): string =>
+  value === undefined ? "(none)" : JSON.stringify(value);
+
+export const formatDrift = (entries: DriftEntry[]): string => {
+  const TAB = "  ";
+  const lines: string[] = [];
+  const getAccount = (entry: DriftEntry) =>
+    formatAccount(entry.accountId, entry.connectedAccountId);
+  const accounts = [...new Set(entries.map(getAccount))];
+  for (const account of accounts) {
+    lines.push(`Stripe drift in account ${account}:`);
+    const drifted = entries.filter(
+      (entry) => getAccount(entry) === account && entry.status !== "inSync"
+    );
+    for (const entry of drifted) {
+      const stripeId = entry.stripeId ? ` (${entry.stripeId})` : "";
+      lines.push(
+        `${TAB}${STATUS_SYMBOLS[entry.status]} ${entry.entity} ${entry.internalId}${stripeId} ${entry.status}`
+      );
+      for (const fieldDiff of entry.diff) {
+        lines.push(
+          `${TAB}${TAB}${TAB}${fieldDiff.field}: ${formatValue(
+            fieldDiff.before
+          )} in Stripe, ${formatValue(fieldDiff.after)} in config`
+        );
+      }
+    }
+    lines.push("");
+  }
+
+  const count = (status: DriftStatus) =>
+    entries.filter((entry) => entry.status === status).length;
+  lines.push(
+    `Drift: ${count("drifted")} drifted, ${count("missing")} missing, ` +
+      `${count("orphaned")} orphaned, ${count("inSync")} in sync.`
+  );
+  return lines.join("\n");
+};
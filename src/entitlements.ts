@@ -0,0 +1,177 @@
+import { Stripe } from "stripe";
+import { StripeFeatureConfig, WebhookConfig } from "./types";
+import { diffFields, FieldDiff } from "./diff";
+import { listAll } from "./stripeClient";
+import { ENTITLEMENT_SUMMARY_EVENT } from "./eventTypes";
+
+// Metadata keys written by the plugin itself, the rest is user metadata
+export const FEATURE_METADATA_KEYS = [
+  "stage",
+  "service",
+  "managedBy",
+  "connectedAccount",
+  "internalId",
+  "toBeArchived",
+];
+
+/**
+ * A feature customers are entitled to through the products they subscribe
+ * to. stripe-node 14 has no types or methods for the Entitlements API, so it
+ * is called through the resource below.
+ */
+export type EntitlementFeature = {
+  id: string;
+  object: "entitlements.feature";
+  active: boolean;
+  livemode: boolean;
+  lookup_key: string;
+  metadata: Stripe.Metadata;
+  name: string;
+};
+
+/**
+ * A feature attached to a product
+ */
+export type ProductFeature = {
+  id: string;
+  object: "product_feature";
+  entitlement_feature: EntitlementFeature;
+  livemode: boolean;
+};
+
+type FeatureParams = {
+  name?: string;
+  lookup_key?: string;
+  active?: boolean;
+  metadata?: Stripe.MetadataParam;
+};
+
+type EntitlementsResource = {
+  listFeatures(
+    params: { archived?: boolean } & Stripe.PaginationParams
+  ): Promise<Stripe.ApiList<EntitlementFeature>>;
+  retrieveFeature(id: string): Promise<Stripe.Response<EntitlementFeature>>;
+  createFeature(
+    params: FeatureParams,
+    options?: Stripe.RequestOptions
+  ): Promise<Stripe.Response<EntitlementFeature>>;
+  updateFeature(
+    id: string,
+    params: FeatureParams
+  ): Promise<Stripe.Response<EntitlementFeature>>;
+  listProductFeatures(
+    product: string,
+    params: Stripe.PaginationParams
+  ): Promise<Stripe.ApiList<ProductFeature>>;
+  attachFeature(
+    product: string,
+    params: { entitlement_feature: string },
+    options?: Stripe.RequestOptions
+  ): Promise<Stripe.Response<ProductFeature>>;
+  detachFeature(product: string, id: string): Promise<unknown>;
+};
+
+const EntitlementsResource = Stripe.StripeResource.extend({
+  listFeatures: Stripe.StripeResource.method({
+    method: "GET",
+    fullPath: "/v1/entitlements/features",
+    methodType: "list",
+  }),
+  retrieveFeature: Stripe.StripeResource.method({
+    method: "GET",
+    fullPath: "/v1/entitlements/features/{id}",
+  }),
+  createFeature: Stripe.StripeResource.method({
+    method: "POST",
+    fullPath: "/v1/entitlements/features",
+  }),
+  updateFeature: Stripe.StripeResource.method({
+    method: "POST",
+    fullPath: "/v1/entitlements/features/{id}",
+  }),
+  listProductFeatures: Stripe.StripeResource.method({
+    method: "GET",
+    fullPath: "/v1/products/{product}/features",
+    methodType: "list",
+  }),
+  attachFeature: Stripe.StripeResource.method({
+    method: "POST",
+    fullPath: "/v1/products/{product}/features",
+  }),
+  detachFeature: Stripe.StripeResource.method({
+    method: "DELETE",
+    fullPath: "/v1/products/{product}/features/{id}",
+  }),
+});
+
+const resources = new WeakMap<Stripe, EntitlementsResource>();
+
+export const getEntitlements = (stripe: Stripe): EntitlementsResource => {
+  let resource = resources.get(stripe);
+  if (!resource) {
+    resource = new EntitlementsResource(
+      stripe
+    ) as unknown as EntitlementsResource;
+    resources.set(stripe, resource);
+  }
+  return resource;
+};
+
+/**
+ * Active and archived features, archived ones are listed separately
+ */
+export const getAllFeaturesFromStripe = async (
+  stripe: Stripe
+): Promise<EntitlementFeature[]> => {
+  const entitlements = getEntitlements(stripe);
+  return [
+    ...(await listAll((params) => entitlements.listFeatures(params))),
+    ...(await listAll((params) => entitlements.listFeatures(params), {
+      archived: true,
+    })),
+  ];
+};
+
+export const getProductFeaturesFromStripe = async (
+  stripe: Stripe,
+  product: string
+): Promise<ProductFeature[]> =>
+  await listAll((params) =>
+    getEntitlements(stripe).listProductFeatures(product, params)
+  );
+
+/**
+ * Compare the attributes of a feature that can be updated. Only the metadata
+ * keys in config are compared, the plugin writes its own keys as well.
+ */
+export const diffFeature = (
+  config: StripeFeatureConfig,
+  feature: EntitlementFeature
+): FieldDiff[] =>
+  diffFields(
+    { name: config.name, metadata: config.metadata, active: true },
+    feature
+  );
+
+/**
+ * The lookup keys of the features attached to a product, sorted so that
+ * they can be compared with the config
+ */
+export const getAttachedLookupKeys = (attached: ProductFeature[]): string[] =>
+  attached
+    .map((attachment) => attachment.entitlement_feature.lookup_key)
+    .sort();
+
+/**
+ * The webhook with the entitlement summary event added to its events when it
+ * opted in with entitlementSummary
+ */
+export const withEntitlementSummaryEvent = (
+  webhook: WebhookConfig
+): WebhookConfig =>
+  webhook.entitlementSummary &&
+  webhook.events &&
+  webhook.events.indexOf(ENTITLEMENT_SUMMARY_EVENT) === -1 &&
+  webhook.events.indexOf("*" as Stripe.Event.Type) === -1
+    ? { ...webhook, events: [...webhook.events, ENTITLEMENT_SUMMARY_EVENT] }
+    : webhook;
@@ -0,0 +1,330 @@
+/**
+ * Objects of synthetic events sent by `serverless stripe trigger`, shaped
+ * like the objects of API version 2023-10-16. Ids end in `_local` so that
+ * handlers can tell them apart from real objects.
+ */
+
+type StripeObject = { [key: string]: unknown };
+
+const CREATED = 1700000000;
+const PERIOD_END = CREATED + 30 * 24 * 60 * 60;
+
+const customer = (): StripeObject => ({
+  id: "cus_local",
+  object: "customer",
+  address: null,
+  balance: 0,
+  created: CREATED,
+  currency: "eur",
+  default_source: null,
+  delinquent: false,
+  description: null,
+  discount: null,
+  email: "customer@example.com",
+  invoice_prefix: "LOCAL",
+  invoice_settings: {
+    custom_fields: null,
+    default_payment_method: "pm_local",
+    footer: null,
+    rendering_options: null,
+  },
+  livemode: false,
+  metadata: {},
+  name: "Local Customer",
+  phone: null,
+  preferred_locales: [],
+  shipping: null,
+  tax_exempt: "none",
+  test_clock: null,
+});
+
+const price = (): StripeObject => ({
+  id: "price_local",
+  object: "price",
+  active: true,
+  billing_scheme: "per_unit",
+  created: CREATED,
+  currency: "eur",
+  custom_unit_amount: null,
+  livemode: false,
+  lookup_key: null,
+  metadata: {},
+  nickname: null,
+  product: "prod_local",
+  recurring: {
+    aggregate_usage: null,
+    interval: "month",
+    interval_count: 1,
+    trial_period_days: null,
+    usage_type: "licensed",
+  },
+  tax_behavior: "unspecified",
+  tiers_mode: null,
+  transform_quantity: null,
+  type: "recurring",
+  unit_amount: 1000,
+  unit_amount_decimal: "1000",
+});
+
+const product = (): StripeObject => ({
+  id: "prod_local",
+  object: "product",
+  active: true,
+  created: CREATED,
+  default_price: "price_local",
+  description: null,
+  features: [],
+  images: [],
+  livemode: false,
+  metadata: {},
+  name: "Local Product",
+  package_dimensions: null,
+  shippable: null,
+  statement_descriptor: null,
+  tax_code: null,
+  type: "service",
+  unit_label: null,
+  updated: CREATED,
+  url: null,
+});
+
+const subscription = (status: string): StripeObject => ({
+  id: "sub_local",
+  object: "subscription",
+  application: null,
+  billing_cycle_anchor: CREATED,
+  cancel_at: null,
+  cancel_at_period_end: false,
+  canceled_at: status === "canceled" ? PERIOD_END : null,
+  collection_method: "charge_automatically",
+  created: CREATED,
+  currency: "eur",
+  current_period_end: PERIOD_END,
+  current_period_start: CREATED,
+  customer: "cus_local",
+  default_payment_method: "pm_local",
+  discount: null,
+  ended_at: status === "canceled" ? PERIOD_END : null,
+  items: {
+    object: "list",
+    data: [
+      {
+        id: "si_local",
+        object: "subscription_item",
+        created: CREATED,
+        metadata: {},
+        price: price(),
+        quantity: 1,
+        subscription: "sub_local",
+        tax_rates: [],
+      },
+    ],
+    has_more: false,
+    url: "/v1/subscription_items?subscription=sub_local",
+  },
+  latest_invoice: "in_local",
+  livemode: false,
+  metadata: {},
+  pause_collection: null,
+  status,
+  test_clock: null,
+  trial_end: null,
+  trial_start: null,
+});
+
+const invoice = (status: string): StripeObject => ({
+  id: "in_local",
+  object: "invoice",
+  account_country: "FI",
+  amount_due: 1000,
+  amount_paid: status === "paid" ? 1000 : 0,
+  amount_remaining: status === "paid" ? 0 : 1000,
+  attempt_count: 1,
+  attempted: true,
+  billing_reason: "subscription_cycle",
+  charge: "ch_local",
+  collection_method: "charge_automatically",
+  created: CREATED,
+  currency: "eur",
+  customer: "cus_local",
+  customer_email: "customer@example.com",
+  hosted_invoice_url: null,
+  lines: {
+    object: "list",
+    data: [
+      {
+        id: "il_local",
+        object: "line_item",
+        amount: 1000,
+        currency: "eur",
+        description: "1 × Local Product",
+        period: { end: PERIOD_END, start: CREATED },
+        price: price(),
+        quantity: 1,
+        subscription: "sub_local",
+        type: "subscription",
+      },
+    ],
+    has_more: false,
+    url: "/v1/invoices/in_local/lines",
+  },
+  livemode: false,
+  metadata: {},
+  number: "LOCAL-0001",
+  paid: status === "paid",
+  payment_intent: "pi_local",
+  period_end: CREATED,
+  period_start: CREATED,
+  status,
+  subscription: "sub_local",
+  subtotal: 1000,
+  tax: null,
+  total: 1000,
+});
+
+const paymentIntent = (status: string): StripeObject => ({
+  id: "pi_local",
+  object: "payment_intent",
+  amount: 1000,
+  amount_received: status === "succeeded" ? 1000 : 0,
+  capture_method: "automatic",
+  client_secret: "pi_local_secret_local",
+  created: CREATED,
+  currency: "eur",
+  customer: "cus_local",
+  description: null,
+  invoice: "in_local",
+  last_payment_error:
+    status === "requires_payment_method"
+      ? {
+          code: "card_declined",
+          decline_code: "generic_decline",
+          message: "Your card was declined.",
+          type: "card_error",
+        }
+      : null,
+  latest_charge: "ch_local",
+  livemode: false,
+  metadata: {},
+  payment_method: "pm_local",
+  payment_method_types: ["card"],
+  status,
+});
+
+const charge = (status: string): StripeObject => ({
+  id: "ch_local",
+  object: "charge",
+  amount: 1000,
+  amount_captured: status === "succeeded" ? 1000 : 0,
+  amount_refunded: 0,
+  captured: status === "succeeded",
+  created: CREATED,
+  currency: "eur",
+  customer: "cus_local",
+  failure_code: status === "failed" ? "card_declined" : null,
+  failure_message: status === "failed" ? "Your card was declined." : null,
+  invoice: "in_local",
+  livemode: false,
+  metadata: {},
+  paid: status === "succeeded",
+  payment_intent: "pi_local",
+  payment_method: "pm_local",
+  refunded: false,
+  status,
+});
+
+const checkoutSession = (status: string): StripeObject => ({
+  id: "cs_local",
+  object: "checkout.session",
+  amount_subtotal: 1000,
+  amount_total: 1000,
+  cancel_url: null,
+  client_reference_id: null,
+  created: CREATED,
+  currency: "eur",
+  customer: "cus_local",
+  customer_details: {
+    address: null,
+    email: "customer@example.com",
+    name: "Local Customer",
+    phone: null,
+    tax_exempt: "none",
+    tax_ids: [],
+  },
+  expires_at: CREATED + 24 * 60 * 60,
+  invoice: "in_local",
+  livemode: false,
+  metadata: {},
+  mode: "subscription",
+  payment_intent: null,
+  payment_status: status === "complete" ? "paid" : "unpaid",
+  status,
+  subscription: "sub_local",
+  success_url: "https://example.com/success",
+  url: null,
+});
+
+const activeEntitlementSummary = (): StripeObject => ({
+  object: "entitlements.active_entitlement_summary",
+  customer: "cus_local",
+  entitlements: {
+    object: "list",
+    data: [
+      {
+        id: "ent_local",
+        object: "entitlements.active_entitlement",
+        feature: "feat_local",
+        livemode: false,
+        lookup_key: "local_feature",
+      },
+    ],
+    has_more: false,
+    url: "/v1/customer/cus_local/entitlements",
+  },
+  livemode: false,
+});
+
+/**
+ * The object of a synthetic event of the type, or undefined when there is
+ * no fixture for it
+ */
+export const getEventFixture = (type: string): StripeObject | undefined => {
+  const [resource, action] = [
+    type.slice(0, type.lastIndexOf(".")),
+    type.slice(type.lastIndexOf(".") + 1),
+  ];
+  switch (resource) {
+    case "customer":
+      return customer();
+    case "customer.subscription":
+      return subscription(action === "deleted" ? "canceled" : "active");
+    case "invoice":
+      return invoice(
+        action === "paid" || action === "payment_succeeded"
+          ? "paid"
+          : action === "voided"
+          ? "void"
+          : "open"
+      );
+    case "payment_intent":
+      return paymentIntent(
+        action === "payment_failed"
+          ? "requires_payment_method"
+          : action === "canceled"
+          ? "canceled"
+          : "succeeded"
+      );
+    case "charge":
+      return charge(action === "failed" ? "failed" : "succeeded");
+    case "checkout.session":
+      return checkoutSession(action === "expired" ? "expired" : "complete");
+    case "product":
+      return product();
+    case "price":
+      return price();
+    case "entitlements.active_entitlement_summary":
+      return activeEntitlementSummary();
+    default:
+      return undefined;
+  }
+};
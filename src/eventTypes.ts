@@ -0,0 +1,18 @@
+import type { Stripe } from "stripe";
+
+// not in the event types of the stripe-node version this plugin uses, which
+// predates the Entitlements API
+export const ENTITLEMENT_SUMMARY_EVENT =
+  "entitlements.active_entitlement_summary.updated" as Stripe.Event.Type &
+    Stripe.WebhookEndpointCreateParams.EnabledEvent;
+
+// e.g. customer.subscription.created. Stripe rejects types it does not know
+// when the endpoint is created, so new types need no plugin release.
+const EVENT_TYPE_PATTERN = /^[a-z_]+(\.[a-z_]+)+$/;
+
+/**
+ * Whether an event can be given in the events of a webhook, where `*`
+ * enables every type
+ */
+export const isWebhookEventType = (event: string): boolean =>
+  event === "*" || EVENT_TYPE_PATTERN.test(event);
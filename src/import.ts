@@ -0,0 +1,69 @@
+import { createInterface } from "readline";
+import { formatAccount, PlanEntity } from "./plan";
+
+export type ImportEntity = Extract<
+  PlanEntity,
+  "webhook" | "product" | "price" | "billingPortal"
+>;
+
+export type ImportMatch = {
+  accountId: string;
+  connectedAccountId?: string;
+  entity: ImportEntity;
+  // function name for webhooks, internal id for everything else
+  internalId: string;
+  stripeId: string;
+  matchedBy: "stripeId" | "name" | "url" | "attributes";
+};
+
+export const formatImportMatches = (matches: ImportMatch[]): string => {
+  const TAB = "  ";
+  const lines: string[] = [];
+  const getAccount = (match: ImportMatch) =>
+    formatAccount(match.accountId, match.connectedAccountId);
+  const accounts = [...new Set(matches.map(getAccount))];
+  for (const account of accounts) {
+    lines.push(`Stripe objects to import in account ${account}:`);
+    for (const match of matches.filter((m) => getAccount(m) === account)) {
+      lines.push(
+        `${TAB}${match.entity} ${match.internalId} <- ${match.stripeId} (matched by ${match.matchedBy})`
+      );
+    }
+    lines.push("");
+  }
+  lines.push(`Import: ${matches.length} to import.`);
+  return lines.join("\n");
+};
+
+/**
+ * Parse `--webhook-secret <functionName>=<secret>` options
+ */
+export const parseWebhookSecrets = (
+  option: string | string[] | undefined
+): { [functionName: string]: string } => {
+  const values = option === undefined ? [] : [].concat(option);
+  const secrets: { [functionName: string]: string } = {};
+  for (const value of values) {
+    const separator = value.indexOf("=");
+    if (separator < 1 || separator === value.length - 1) {
+      throw new Error(
+        `Webhook secrets must be given as <functionName>=<secret>, got ${value}`
+      );
+    }
+    secrets[value.slice(0, separator)] = value.slice(separator + 1);
+  }
+  return secrets;
+};
+
+export const confirm = (question: string): Promise<boolean> => {
+  const readline = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise((resolve) =>
+    readline.question(`${question} (y/N) `, (answer) => {
+      readline.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    })
+  );
+};
@@ -1,5 +1,6 @@
 "use strict";
 
+import { resolve } from "path";
 import Globals from "./globals";
 import {
   ServerlessInstance,
@@ -7,10 +8,85 @@ import {
   ServerlessUtils,
 } from "./types";
 import { ServerlessStripe } from "./ServerlessStripe";
+import Logging from "./logging";
+import { formatPlan, hasPendingChanges, PlannedChange } from "./plan";
+import { DriftEntry, formatDrift, hasDrift } from "./drift";
+import { stripeConfigSchema, stripeManifestSchema } from "./schema";
+import { formatPermission } from "./preflight";
+import { formatSnapshot } from "./rollback";
+import {
+  deleteCursor,
+  getCursorPath,
+  isSameReplay,
+  parseSince,
+  readCursor,
+  sleep,
+  writeCursor,
+} from "./replay";
+import {
+  appendMigrationLog,
+  deleteMigrationLog,
+  formatMigrationReport,
+  getMigrationLogPath,
+  groupBySubscription,
+  isMigratable,
+  PriceMigration,
+  PRORATION_BEHAVIORS,
+  ProrationBehavior,
+  readMigrationLog,
+  toBatches,
+} from "./migratePrices";
+import {
+  buildEvent,
+  getEventObject,
+  getWebhookRequest,
+  LOCAL_WEBHOOK_SECRET,
+  postWebhook,
+  signPayload,
+} from "./trigger";
+import {
+  DEFAULT_MANIFEST_DIRECTORY,
+  mergeManifests,
+  writeManifest,
+} from "./manifest";
+import { MANIFEST_ENV_VARIABLE } from "./runtime/manifest";
+import {
+  getPackagePath,
+  readSyncState,
+  SYNC_STATE_FILE,
+  SyncState,
+  writeSyncState,
+} from "./syncState";
+import {
+  confirm,
+  formatImportMatches,
+  ImportMatch,
+  parseWebhookSecrets,
+} from "./import";
+
+const dryRunOption = {
+  usage: "Print the Stripe changes without applying them",
+  type: "boolean",
+};
+
+const confirmLiveOption = {
+  usage: "Allow changes to live mode Stripe objects",
+  type: "boolean",
+};
 
 class ServerlessStripePlugin {
   public hooks: object;
+  public commands: object;
   private _stripeHandlers: ServerlessStripe[];
+  private _preflight: "read" | "write" | undefined;
+  // whether the Stripe objects were synced by this process
+  private _syncStarted = false;
+  private _synced = false;
+  // whether the sync state of a package created by another process was read
+  private _restored = false;
+  // set once CloudFormation has deployed, after which there is nothing to
+  // roll back
+  private _deployed = false;
 
   constructor(
     serverless: ServerlessInstance,
@@ -21,20 +97,250 @@ class ServerlessStripePlugin {
     Globals.options = options;
     Globals.v3Utils = v3Utils;
 
+    if (serverless.configSchemaHandler) {
+      serverless.configSchemaHandler.defineCustomProperties({
+        type: "object",
+        properties: {
+          stripe: stripeConfigSchema,
+          stripeManifest: stripeManifestSchema,
+        },
+      });
+    }
+
+    this.commands = {
+      stripe: {
+        usage: "Manage the Stripe resources of this service",
+        commands: {
+          plan: {
+            usage:
+              "Show the Stripe changes the next deploy would make. Exits with a non-zero code when changes are pending",
+            lifecycleEvents: ["plan"],
+          },
+          "rotate-secret": {
+            usage:
+              "Replace the webhook endpoint of a function to get a new signing secret. The previous endpoint is retired on the next deploy",
+            lifecycleEvents: ["rotate"],
+            options: {
+              function: {
+                usage: "Name of the webhook function",
+                shortcut: "f",
+                required: true,
+                type: "string",
+              },
+              account: {
+                usage: "Only rotate the secret of this accountId",
+                type: "string",
+              },
+              "stripe-confirm-live": confirmLiveOption,
+            },
+          },
+          drift: {
+            usage:
+              "Compare the Stripe objects owned by this stage with the config. Exits with a non-zero code when they differ",
+            lifecycleEvents: ["drift"],
+            options: {
+              json: {
+                usage: "Print the drift report as JSON",
+                type: "boolean",
+              },
+            },
+          },
+          import: {
+            usage:
+              "Adopt Stripe objects created outside of this plugin, matched to the config by stripeId or by name/URL",
+            lifecycleEvents: ["import"],
+            options: {
+              account: {
+                usage:
+                  "Only import objects of this accountId or connectedAccountId",
+                type: "string",
+              },
+              "webhook-secret": {
+                usage:
+                  "Signing secret of an imported webhook endpoint as <functionName>=<secret>, stored in SSM. Can be repeated",
+                type: "multiple",
+              },
+              yes: {
+                usage: "Import without asking for confirmation",
+                type: "boolean",
+              },
+              "stripe-confirm-live": confirmLiveOption,
+            },
+          },
+          trigger: {
+            usage:
+              "Send a signed synthetic event to a webhook function, through invoke local or to a running function such as serverless-offline",
+            lifecycleEvents: ["trigger"],
+            options: {
+              function: {
+                usage: "Name of the webhook function",
+                shortcut: "f",
+                required: true,
+                type: "string",
+              },
+              event: {
+                usage: "Type of the event, e.g. invoice.payment_succeeded",
+                shortcut: "e",
+                required: true,
+                type: "string",
+              },
+              fixture: {
+                usage:
+                  "JSON file with the event or its data.object, instead of the bundled fixture",
+                type: "string",
+              },
+              url: {
+                usage:
+                  "POST the event to this URL, e.g. of serverless-offline, instead of invoking the function locally",
+                type: "string",
+              },
+              secret: {
+                usage:
+                  "Signing secret, by default the secret of the deployed endpoint for --url and a local test secret otherwise",
+                type: "string",
+              },
+              account: {
+                usage: "The accountId to send the event for",
+                type: "string",
+              },
+            },
+          },
+          replay: {
+            usage:
+              "Send the Stripe events of the past 30 days again to the deployed function of a webhook, e.g. after a bug dropped them",
+            lifecycleEvents: ["replay"],
+            options: {
+              function: {
+                usage: "Name of the webhook function",
+                shortcut: "f",
+                required: true,
+                type: "string",
+              },
+              since: {
+                usage:
+                  "Replay events created since, e.g. 12h, 7d, a unix timestamp or an ISO 8601 date",
+                required: true,
+                type: "string",
+              },
+              type: {
+                usage:
+                  "Only replay events of this type, by default every type the endpoint is enabled for. Can be repeated",
+                type: "multiple",
+              },
+              account: {
+                usage: "The accountId to replay the events of",
+                type: "string",
+              },
+              rate: {
+                usage: "Maximum number of events sent per second, 5 by default",
+                type: "string",
+              },
+              "dry-run": {
+                usage: "List the events without sending them",
+                type: "boolean",
+              },
+              restart: {
+                usage:
+                  "Start from the first event instead of continuing an interrupted replay",
+                type: "boolean",
+              },
+            },
+          },
+          "migrate-prices": {
+            usage:
+              "Report the subscriptions on prices no longer in config and move them to the prices replacing them",
+            lifecycleEvents: ["migrate"],
+            options: {
+              account: {
+                usage: "Only migrate the subscriptions of this accountId",
+                type: "string",
+              },
+              "proration-behavior": {
+                usage:
+                  "none (default), create_prorations or always_invoice, see the proration_behavior of Stripe subscription updates",
+                type: "string",
+              },
+              "batch-size": {
+                usage:
+                  "Number of subscriptions updated at a time, 10 by default",
+                type: "string",
+              },
+              "dry-run": {
+                usage: "Only report the subscriptions without moving them",
+                type: "boolean",
+              },
+              restart: {
+                usage: "Ignore the progress log of an interrupted migration",
+                type: "boolean",
+              },
+              yes: {
+                usage: "Migrate without asking for confirmation",
+                type: "boolean",
+              },
+              "stripe-confirm-live": confirmLiveOption,
+            },
+          },
+          rollback: {
+            usage:
+              "Restore the Stripe objects changed by packaging to their previous state, e.g. after a failed deploy",
+            lifecycleEvents: ["rollback"],
+            options: {
+              package: {
+                usage:
+                  "Directory of the package whose changes are rolled back, .serverless by default",
+                shortcut: "p",
+                type: "string",
+              },
+              yes: {
+                usage: "Roll back without asking for confirmation",
+                type: "boolean",
+              },
+              "stripe-confirm-live": confirmLiveOption,
+            },
+          },
+        },
+      },
+      package: {
+        options: {
+          "stripe-dry-run": dryRunOption,
+          "stripe-confirm-live": confirmLiveOption,
+        },
+      },
+      deploy: {
+        options: {
+          "stripe-dry-run": dryRunOption,
+          "stripe-confirm-live": confirmLiveOption,
+        },
+      },
+      remove: {
+        options: { "stripe-confirm-live": confirmLiveOption },
+      },
+    };
+
     this.hooks = {
       "before:package:initialize": () => this.validateConfigExists(),
       "before:package:setupProviderConfiguration": () =>
         this.createStripeWebhooksAndProducts(),
-      "after:deploy:deploy": () => this.removeWebhooksNotInConfig(),
-      "before:remove:remove": () => this.removeStripeWebhooks(),
+      "before:deploy:deploy": () => this.restorePackageSyncState(),
+      "after:deploy:deploy": () => this.removeResourcesNotInConfig(),
+      error: () => this.rollbackFailedDeploy(),
+      "before:remove:remove": () => this.removeStripeResources(),
+      "stripe:plan:plan": () => this.planStripeWebhooksAndProducts(),
+      "stripe:rotate-secret:rotate": () => this.rotateWebhookSecret(),
+      "stripe:drift:drift": () => this.detectDrift(),
+      "stripe:import:import": () => this.importStripeObjects(),
+      "stripe:rollback:rollback": () => this.rollbackStripeChanges(),
+      "stripe:trigger:trigger": () => this.triggerWebhookEvent(),
+      "stripe:replay:replay": () => this.replayWebhookEvents(),
+      "stripe:migrate-prices:migrate": () => this.migratePrices(),
     };
   }
 
   private getStripeHandlers() {
     if (!this._stripeHandlers) {
       this._stripeHandlers = Globals.serverless.service.custom.stripe.map(
-        (config) => {
-          return new ServerlessStripe(config, Globals.serverless);
+        (config, index) => {
+          return new ServerlessStripe(config, Globals.serverless, index);
         }
       );
     }
@@ -45,30 +351,817 @@ class ServerlessStripePlugin {
     for (const stripeHandler of this.getStripeHandlers()) {
       stripeHandler.validateConfigExists();
     }
+
+    // accounts sharing a webhook function need their own secret variables
+    const secretVariables = this.getStripeHandlers()
+      .map((stripeHandler) =>
+        stripeHandler.webhooks.map(
+          (webhook) =>
+            `${webhook.functionName} ${webhook.webhookSecretEnvVariableName}`
+        )
+      )
+      .reduce((all, variables) => [...all, ...variables], []);
+    if (secretVariables.length !== new Set(secretVariables).size) {
+      throw new Error(
+        `${Globals.pluginName}: Accounts sharing a webhook function must use different webhookSecretEnvVariableNames`
+      );
+    }
+
+    // the ids of products, prices, coupons, promotion codes and payment
+    // links and the envVariableNames of portals all become provider
+    // environment variables
+    const environmentVariables = this.getStripeHandlers()
+      .map((stripeHandler) => stripeHandler.getEnvironmentVariables())
+      .reduce((all, variables) => [...all, ...variables], []);
+    environmentVariables.forEach((variable) => {
+      const first = environmentVariables.find((v) => v.name === variable.name);
+      if (first !== variable) {
+        throw new Error(
+          `${Globals.pluginName}: Invalid configuration at '${variable.path}': environment variable ${variable.name} is already set by '${first.path}'`
+        );
+      }
+    });
+  }
+
+  /**
+   * Resolve the API keys and check their modes and permissions before
+   * anything is changed, so a missing permission does not stop a deploy
+   * halfway
+   *
+   * @param write whether the command is going to change Stripe objects
+   */
+  private async runPreflight(write: boolean) {
+    if (this._preflight === "write" || (this._preflight === "read" && !write)) {
+      return;
+    }
+    const missing: string[] = [];
+    for (const stripeHandler of this.getStripeHandlers()) {
+      await stripeHandler.resolveApiKey();
+      stripeHandler.checkMode(write);
+      const permissions = await stripeHandler.findMissingPermissions(write);
+      missing.push(
+        ...permissions.map(
+          (permission) =>
+            `${stripeHandler.getAccountLabel()}: ${formatPermission(permission)}`
+        )
+      );
+    }
+    if (missing.length > 0) {
+      throw new Error(
+        `${Globals.pluginName}: The Stripe API key is missing permissions:\n` +
+          missing.map((permission) => `  - ${permission}`).join("\n")
+      );
+    }
+    this._preflight = write ? "write" : "read";
   }
 
   public async createStripeWebhooksAndProducts() {
-    this.validateConfigExists();
+    await this.validateConfigExists();
+    await this.runPreflight(!Globals.options["stripe-dry-run"]);
+    this._syncStarted = !Globals.options["stripe-dry-run"];
+    const plannedChanges: PlannedChange[] = [];
     for (const stripeHandler of this.getStripeHandlers()) {
       await stripeHandler.createStripeWebhooksAndProducts();
+      plannedChanges.push(...stripeHandler.plannedChanges);
+    }
+    if (Globals.options["stripe-dry-run"]) {
+      Logging.writeText(formatPlan(plannedChanges));
+      this.writeSyncState(true);
+    } else {
+      this.writeManifest();
+      this.writeSyncState(false);
+      this._synced = true;
+    }
+  }
+
+  /**
+   * Store what was done in Stripe next to the package, for the deploy of
+   * the package to prune and summarize
+   *
+   * @param dryRun only mark the package as a dry run, which must not be
+   * deployed as its functions have no Stripe ids
+   */
+  private writeSyncState(dryRun: boolean) {
+    const packagePath = getPackagePath(Globals.serverless);
+    writeSyncState(packagePath, {
+      service: Globals.serverless.service.service,
+      stage: Globals.serverless.processedInput.options.stage,
+      region: Globals.serverless.service.provider.region as string,
+      createdAt: new Date().toISOString(),
+      dryRun,
+      accounts: dryRun
+        ? []
+        : this.getStripeHandlers().map((stripeHandler) =>
+            stripeHandler.getSyncState()
+          ),
+    });
+    Logging.logInfo(`Wrote Stripe sync state to ${packagePath}`);
+  }
+
+  /**
+   * Restore the sync state of a package created by another process, e.g.
+   * by `serverless package` in an earlier CI job
+   */
+  private restoreSyncState(): SyncState | undefined {
+    const packagePath = getPackagePath(Globals.serverless);
+    const state = readSyncState(packagePath);
+    if (!state) {
+      return undefined;
+    }
+    const stage = Globals.serverless.processedInput.options.stage;
+    const region = Globals.serverless.service.provider.region as string;
+    if (
+      state.service !== Globals.serverless.service.service ||
+      state.stage !== stage ||
+      state.region !== region
+    ) {
+      throw new Error(
+        `${Globals.pluginName}: The package in ${packagePath} was created for ${state.service} ${state.stage} in ${state.region}, not for ${Globals.serverless.service.service} ${stage} in ${region}`
+      );
+    }
+    if (state.dryRun) {
+      throw new Error(
+        `${Globals.pluginName}: The package in ${packagePath} was created with --stripe-dry-run and has no Stripe ids, package the service again without it`
+      );
+    }
+    if (state.rolledBack) {
+      throw new Error(
+        `${Globals.pluginName}: The Stripe changes of the package in ${packagePath} have been rolled back, package the service again`
+      );
+    }
+    for (const stripeHandler of this.getStripeHandlers()) {
+      const accountState = state.accounts.find(
+        (account) =>
+          account.accountId === stripeHandler.accountId &&
+          account.connectedAccountId === stripeHandler.connectedAccountId
+      );
+      if (!accountState) {
+        throw new Error(
+          `${Globals.pluginName}: The package in ${packagePath} has no Stripe sync state for account ${stripeHandler.getAccountLabel()}, package the service again`
+        );
+      }
+      stripeHandler.restoreSyncState(accountState);
     }
+    return state;
   }
 
-  public async removeWebhooksNotInConfig() {
-    this.validateConfigExists();
+  /**
+   * Undo the Stripe changes of a deploy or package that failed before
+   * CloudFormation was updated, so Stripe keeps pointing at the functions
+   * that are still deployed
+   */
+  public async rollbackFailedDeploy() {
+    const command = Globals.serverless.processedInput.commands.join(" ");
+    if (
+      (command !== "deploy" && command !== "package") ||
+      this._deployed ||
+      Globals.options["stripe-dry-run"] ||
+      !(this._syncStarted || this._restored) ||
+      !this.hasSnapshots()
+    ) {
+      return;
+    }
+    Logging.logWarning(
+      "WARNING: The deploy failed, rolling back the Stripe changes"
+    );
+    await this.rollback();
+  }
+
+  /**
+   * Check the sync state of `deploy --package` before CloudFormation is
+   * updated, so a package of another stage, a dry run or one rolled back is
+   * not deployed
+   */
+  public async restorePackageSyncState() {
+    if (Globals.options["stripe-dry-run"]) {
+      // the functions of the package have no Stripe ids and secrets
+      throw new Error(
+        `${Globals.pluginName}: Dry run, the deploy stops before CloudFormation is updated and no Stripe objects were changed`
+      );
+    }
+    if (this._syncStarted || !Globals.options.package) {
+      return;
+    }
+    await this.validateConfigExists();
+    this._restored = Boolean(this.restoreSyncState());
+  }
+
+  public async rollbackStripeChanges() {
+    await this.validateConfigExists();
+    await this.runPreflight(true);
+    const packagePath = getPackagePath(Globals.serverless);
+    if (!this.restoreSyncState()) {
+      throw new Error(
+        `${Globals.pluginName}: ${SYNC_STATE_FILE} not found in ${packagePath}, nothing to roll back`
+      );
+    }
+    if (!this.hasSnapshots()) {
+      Logging.writeText("No Stripe changes to roll back.");
+      return;
+    }
+    Logging.writeText(
+      [
+        "Stripe objects to restore (~) or remove (-):",
+        ...this.getStripeHandlers()
+          .map((stripeHandler) => stripeHandler.getSnapshots())
+          .reduce((all, snapshots) => [...all, ...snapshots], [])
+          .map(formatSnapshot),
+      ].join("\n")
+    );
+    if (!Globals.options.yes) {
+      if (!process.stdin.isTTY) {
+        throw new Error(
+          `${Globals.pluginName}: Confirm the rollback with --yes when not running in a terminal`
+        );
+      }
+      if (!(await confirm("Roll back these Stripe changes?"))) {
+        Logging.writeText("Rollback cancelled.");
+        return;
+      }
+    }
+    await this.rollback();
+  }
+
+  private hasSnapshots(): boolean {
+    return this.getStripeHandlers().some(
+      (stripeHandler) => stripeHandler.getSnapshots().length > 0
+    );
+  }
+
+  /**
+   * Restore the snapshots of every account and mark the package as rolled
+   * back, so it is not deployed against the restored objects
+   */
+  private async rollback() {
+    const summary: string[] = [];
+    for (const stripeHandler of this.getStripeHandlers()) {
+      summary.push(...(await stripeHandler.rollback()));
+    }
+    Logging.writeText(summary.join("\n"));
+    const packagePath = getPackagePath(Globals.serverless);
+    const state = readSyncState(packagePath);
+    if (state) {
+      writeSyncState(packagePath, { ...state, rolledBack: true });
+    }
+  }
+
+  /**
+   * Write the ids of the stage to a manifest that is bundled into the
+   * package, and tell the functions where to find it
+   */
+  private writeManifest() {
+    const service = Globals.serverless.service;
+    const manifest = mergeManifests(
+      Globals.serverless.processedInput.options.stage,
+      this.getStripeHandlers().map((stripeHandler) =>
+        stripeHandler.getManifest()
+      )
+    );
+    const manifestPath = writeManifest(
+      Globals.serverless.serviceDir,
+      service.custom.stripeManifest?.directory ?? DEFAULT_MANIFEST_DIRECTORY,
+      manifest
+    );
+    service.provider.environment[MANIFEST_ENV_VARIABLE] = manifestPath;
+    service.package = service.package || {};
+    service.package.patterns = [
+      ...(service.package.patterns || []),
+      manifestPath,
+    ];
+    Logging.logInfo(`Wrote Stripe manifest ${manifestPath}`);
+  }
+
+  public async planStripeWebhooksAndProducts() {
+    await this.validateConfigExists();
+    await this.runPreflight(false);
+    const plannedChanges: PlannedChange[] = [];
+    for (const stripeHandler of this.getStripeHandlers()) {
+      plannedChanges.push(
+        ...(await stripeHandler.planStripeWebhooksAndProducts())
+      );
+    }
+    Logging.writeText(formatPlan(plannedChanges));
+    if (hasPendingChanges(plannedChanges)) {
+      process.exitCode = 1;
+    }
+  }
+
+  public async rotateWebhookSecret() {
+    await this.validateConfigExists();
+    await this.runPreflight(true);
+    const functionName = Globals.options.function;
+    const stripeHandlers = this.getStripeHandlers().filter(
+      (stripeHandler) =>
+        !Globals.options.account ||
+        stripeHandler.accountId === Globals.options.account
+    );
+    const summary = [];
+    for (const stripeHandler of stripeHandlers) {
+      summary.push(...(await stripeHandler.rotateWebhookSecret(functionName)));
+    }
+    if (summary.length === 0) {
+      throw new Error(
+        `${Globals.pluginName}: No webhook configured for function ${functionName}`
+      );
+    }
+    Logging.writeText(summary.join("\n"));
+  }
+
+  /**
+   * Test a webhook function without the Stripe CLI. Event types the webhook
+   * is not subscribed to are refused, as Stripe would never send them.
+   */
+  public async triggerWebhookEvent() {
+    await this.validateConfigExists();
+    const { function: functionName, event: type } = Globals.options;
+    const stripeHandler = this.getWebhookStripeHandler(functionName);
+    const webhookConfig = stripeHandler.webhooks.find(
+      (webhook) => webhook.functionName === functionName
+    );
+    const events: string[] = webhookConfig.events;
+    if (events.indexOf(type) === -1 && events.indexOf("*") === -1) {
+      throw new Error(
+        `${Globals.pluginName}: The webhook of ${functionName} is not subscribed to ${type}, add it to its events`
+      );
+    }
+
+    const fixturePath =
+      Globals.options.fixture &&
+      resolve(Globals.serverless.serviceDir, Globals.options.fixture);
+    const event = buildEvent(
+      type,
+      getEventObject(type, fixturePath),
+      webhookConfig.connect ? "acct_local" : undefined
+    );
+    const payload = JSON.stringify(event, null, 2);
+    const secret =
+      Globals.options.secret ??
+      (Globals.options.url
+        ? await stripeHandler.getDeployedWebhookSecret(functionName)
+        : undefined) ??
+      LOCAL_WEBHOOK_SECRET;
+    const signature = signPayload(payload, secret);
+
+    if (Globals.options.url) {
+      const response = await postWebhook(
+        Globals.options.url,
+        payload,
+        signature,
+        stripeHandler.accountId
+      );
+      Logging.writeText(
+        `Sent ${type} to ${Globals.options.url}: ${response.statusCode} ${response.body}`
+      );
+      if (response.statusCode >= 300) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    stripeHandler.injectLocalWebhookSecret(webhookConfig, secret);
+    Globals.options.data = JSON.stringify(
+      getWebhookRequest(payload, signature, stripeHandler.accountId)
+    );
+    await Globals.serverless.pluginManager.spawn("invoke:local");
+  }
+
+  /**
+   * Redeliver the events of a webhook, oldest first. The cursor is saved
+   * after every event the function accepts, so an interrupted replay is
+   * continued by running the same command again.
+   */
+  public async replayWebhookEvents() {
+    await this.validateConfigExists();
+    await this.runPreflight(false);
+    const functionName = Globals.options.function;
+    const stripeHandler = this.getWebhookStripeHandler(functionName);
+    const since = parseSince(Globals.options.since);
+    const rate = Number(Globals.options.rate ?? 5);
+    if (!(rate > 0)) {
+      throw new Error(
+        `${Globals.pluginName}: --rate must be a positive number of events per second`
+      );
+    }
+    const types = await stripeHandler.getReplayTypes(
+      functionName,
+      [].concat(Globals.options.type ?? [])
+    );
+
+    const replay = {
+      functionName,
+      accountId: stripeHandler.accountId,
+      sinceOption: Globals.options.since,
+      types,
+    };
+    const cursorPath = getCursorPath(
+      Globals.serverless.serviceDir,
+      functionName
+    );
+    const cursor = readCursor(cursorPath);
+    const resumed =
+      cursor && !Globals.options.restart && isSameReplay(cursor, replay);
+    // a duration resolves to a later time on every run, the events of an
+    // interrupted replay are listed from the time of its first run
+    const from = resumed ? cursor.since : since;
+    const events = await stripeHandler.listReplayEvents(from, types);
+    let pending = events;
+    let replayed = 0;
+    if (resumed) {
+      const index = events.findIndex(
+        (event) => event.id === cursor.lastEventId
+      );
+      if (index === -1) {
+        throw new Error(
+          `${Globals.pluginName}: Event ${cursor.lastEventId} of the interrupted replay is no longer listed by Stripe, start again with --restart`
+        );
+      }
+      pending = events.slice(index + 1);
+      replayed = cursor.replayed;
+      Logging.writeText(
+        `Continuing after ${cursor.lastEventId}, ${replayed} events were replayed before`
+      );
+    }
+
+    if (Globals.options["dry-run"]) {
+      Logging.writeText(
+        [
+          `${pending.length} events to replay to ${functionName}:`,
+          ...pending.map(
+            (event) =>
+              `  ${event.id} ${new Date(event.created * 1000).toISOString()} ${
+                event.type
+              }`
+          ),
+        ].join("\n")
+      );
+      return;
+    }
+    if (pending.length === 0) {
+      Logging.writeText("No events to replay.");
+      deleteCursor(cursorPath);
+      return;
+    }
+    const secret = await stripeHandler.getDeployedWebhookSecret(functionName);
+    if (!secret) {
+      throw new Error(
+        `${Globals.pluginName}: Webhook secret of ${functionName} not found in account ${stripeHandler.accountId}, deploy to recreate the webhook`
+      );
+    }
+
+    for (const event of pending) {
+      const response = await stripeHandler.replayEvent(
+        functionName,
+        event,
+        secret
+      );
+      if (response.statusCode >= 300) {
+        process.exitCode = 1;
+        Logging.writeText(
+          `${functionName} did not accept ${event.id} ${event.type}: ${response.statusCode} ${response.body}\n` +
+            `Replayed ${replayed} events, run the command again to continue from ${event.id}`
+        );
+        return;
+      }
+      replayed++;
+      writeCursor(cursorPath, {
+        ...replay,
+        since: from,
+        lastEventId: event.id,
+        replayed,
+      });
+      Logging.logInfo(`Replayed ${event.id} ${event.type}: ${response.body}`);
+      await sleep(1000 / rate);
+    }
+    deleteCursor(cursorPath);
+    Logging.writeText(`Replayed ${replayed} events to ${functionName}.`);
+  }
+
+  /**
+   * Move the subscriptions left on prices that were replaced in config. A
+   * line is added to the progress log of the account for every updated
+   * subscription, so an interrupted migration is continued by running the
+   * same command again.
+   */
+  public async migratePrices() {
+    await this.validateConfigExists();
+    await this.runPreflight(false);
+    const dryRun = Boolean(Globals.options["dry-run"]);
+    const prorationBehavior = (Globals.options["proration-behavior"] ??
+      "none") as ProrationBehavior;
+    if (PRORATION_BEHAVIORS.indexOf(prorationBehavior) === -1) {
+      throw new Error(
+        `${Globals.pluginName}: --proration-behavior must be one of ${PRORATION_BEHAVIORS.join(
+          ", "
+        )}`
+      );
+    }
+    const batchSize = Number(Globals.options["batch-size"] ?? 10);
+    if (!(batchSize >= 1) || Math.floor(batchSize) !== batchSize) {
+      throw new Error(
+        `${Globals.pluginName}: --batch-size must be a positive whole number`
+      );
+    }
+    const stripeHandlers = this.getStripeHandlers().filter(
+      (stripeHandler) =>
+        !Globals.options.account ||
+        stripeHandler.accountId === Globals.options.account
+    );
+    if (stripeHandlers.length === 0) {
+      throw new Error(
+        `${Globals.pluginName}: Account ${Globals.options.account} is not configured for this stage`
+      );
+    }
+
+    const missing: string[] = [];
+    for (const stripeHandler of stripeHandlers) {
+      if (!dryRun) {
+        stripeHandler.checkMode(true);
+      }
+      const permissions = await stripeHandler.findMissingPermissions(!dryRun, [
+        { resource: "Subscriptions", access: "Read" },
+        ...(dryRun
+          ? []
+          : [{ resource: "Subscriptions", access: "Write" } as const]),
+      ]);
+      missing.push(
+        ...permissions.map(
+          (permission) =>
+            `${stripeHandler.getAccountLabel()}: ${formatPermission(permission)}`
+        )
+      );
+    }
+    if (missing.length > 0) {
+      throw new Error(
+        `${Globals.pluginName}: The Stripe API key is missing permissions:\n` +
+          missing.map((permission) => `  - ${permission}`).join("\n")
+      );
+    }
+
+    const accounts: {
+      stripeHandler: ServerlessStripe;
+      logPath: string;
+      migrations: PriceMigration[];
+      migratedBefore: number;
+      pending: PriceMigration[][];
+    }[] = [];
+    for (const stripeHandler of stripeHandlers) {
+      const migrations = await stripeHandler.findPriceMigrations();
+      const logPath = getMigrationLogPath(
+        Globals.serverless.serviceDir,
+        stripeHandler.accountId,
+        stripeHandler.connectedAccountId
+      );
+      if (Globals.options.restart) {
+        deleteMigrationLog(logPath);
+      }
+      const migrated = readMigrationLog(logPath).map(
+        (entry) => entry.subscription
+      );
+      accounts.push({
+        stripeHandler,
+        logPath,
+        migrations,
+        migratedBefore: migrated.length,
+        // subscriptions of the log may still be listed on the old price
+        pending: groupBySubscription(migrations.filter(isMigratable)).filter(
+          (items) => migrated.indexOf(items[0].subscription) === -1
+        ),
+      });
+    }
+    Logging.writeText(
+      [
+        "Subscriptions on prices no longer in config, per product and country:",
+        ...accounts.map((account) =>
+          formatMigrationReport(
+            account.stripeHandler.getAccountLabel(),
+            account.migrations
+          )
+        ),
+      ].join("\n")
+    );
+    const migratedBefore = accounts.reduce(
+      (sum, account) => sum + account.migratedBefore,
+      0
+    );
+    if (migratedBefore > 0) {
+      Logging.writeText(
+        `Continuing an interrupted migration, ${migratedBefore} subscriptions were migrated before`
+      );
+    }
+    const total = accounts.reduce(
+      (sum, account) => sum + account.pending.length,
+      0
+    );
+    if (dryRun) {
+      Logging.writeText(
+        `${total} subscriptions would be moved with proration behavior ${prorationBehavior}.`
+      );
+      return;
+    }
+    if (total === 0) {
+      Logging.writeText("No subscriptions to migrate.");
+      accounts.forEach((account) => deleteMigrationLog(account.logPath));
+      return;
+    }
+    if (!Globals.options.yes) {
+      if (!process.stdin.isTTY) {
+        throw new Error(
+          `${Globals.pluginName}: Confirm the migration with --yes when not running in a terminal`
+        );
+      }
+      if (
+        !(await confirm(
+          `Move ${total} subscriptions with proration behavior ${prorationBehavior}?`
+        ))
+      ) {
+        Logging.writeText("Migration cancelled.");
+        return;
+      }
+    }
+
+    let migrated = 0;
+    for (const { stripeHandler, logPath, pending } of accounts) {
+      for (const batch of toBatches(pending, batchSize)) {
+        const errors = await Promise.all(
+          batch.map((items) =>
+            stripeHandler.migrateSubscription(items, prorationBehavior).then(
+              () => undefined,
+              (error: Error) => error
+            )
+          )
+        );
+        batch.forEach((items, index) => {
+          if (errors[index]) {
+            return;
+          }
+          migrated++;
+          appendMigrationLog(logPath, {
+            subscription: items[0].subscription,
+            items: items.map(({ item, from, to }) => ({ item, from, to })),
+            prorationBehavior,
+            migratedAt: new Date().toISOString(),
+          });
+          Logging.logInfo(`Migrated subscription ${items[0].subscription}`);
+        });
+        const failed = batch.filter((items, index) => errors[index]);
+        if (failed.length > 0) {
+          process.exitCode = 1;
+          Logging.writeText(
+            [
+              ...failed.map(
+                (items) =>
+                  `Could not migrate ${items[0].subscription}: ${
+                    errors[batch.indexOf(items)].message
+                  }`
+              ),
+              `Migrated ${migrated} subscriptions, run the command again to continue`,
+            ].join("\n")
+          );
+          return;
+        }
+      }
+      deleteMigrationLog(logPath);
+    }
+    Logging.writeText(`Migrated ${migrated} subscriptions.`);
+  }
+
+  /**
+   * The config entry of the account whose webhook a function receives
+   */
+  private getWebhookStripeHandler(functionName: string): ServerlessStripe {
+    const stripeHandlers = this.getStripeHandlers().filter(
+      (stripeHandler) =>
+        stripeHandler.webhooks.some(
+          (webhook) => webhook.functionName === functionName
+        ) &&
+        (!Globals.options.account ||
+          stripeHandler.accountId === Globals.options.account)
+    );
+    if (stripeHandlers.length === 0) {
+      throw new Error(
+        `${Globals.pluginName}: No webhook configured for function ${functionName}`
+      );
+    }
+    if (stripeHandlers.length > 1) {
+      throw new Error(
+        `${Globals.pluginName}: Function ${functionName} receives the webhooks of several accounts, pick one with --account`
+      );
+    }
+    return stripeHandlers[0];
+  }
+
+  public async detectDrift() {
+    await this.validateConfigExists();
+    await this.runPreflight(false);
+    const entries: DriftEntry[] = [];
+    for (const stripeHandler of this.getStripeHandlers()) {
+      entries.push(...(await stripeHandler.detectDrift()));
+    }
+    Logging.writeText(
+      Globals.options.json
+        ? JSON.stringify({ drift: hasDrift(entries), entries }, null, 2)
+        : formatDrift(entries)
+    );
+    if (hasDrift(entries)) {
+      process.exitCode = 1;
+    }
+  }
+
+  public async importStripeObjects() {
+    await this.validateConfigExists();
+    await this.runPreflight(true);
+    const webhookSecrets = parseWebhookSecrets(
+      Globals.options["webhook-secret"]
+    );
+    const stripeHandlers = this.getStripeHandlers().filter(
+      (stripeHandler) =>
+        !Globals.options.account ||
+        stripeHandler.accountId === Globals.options.account ||
+        stripeHandler.connectedAccountId === Globals.options.account
+    );
+    const matches: ImportMatch[] = [];
+    for (const stripeHandler of stripeHandlers) {
+      matches.push(...(await stripeHandler.findImportMatches()));
+    }
+
+    for (const functionName of Object.keys(webhookSecrets)) {
+      const webhookMatches = matches.filter(
+        (match) =>
+          match.entity === "webhook" && match.internalId === functionName
+      );
+      if (webhookMatches.length === 0) {
+        throw new Error(
+          `${Globals.pluginName}: No webhook endpoint of function ${functionName} to import`
+        );
+      }
+      if (webhookMatches.length > 1) {
+        throw new Error(
+          `${Globals.pluginName}: Webhook endpoints of function ${functionName} are imported in several accounts, use --account to give their secrets one at a time`
+        );
+      }
+    }
+
+    if (matches.length === 0) {
+      Logging.writeText("No Stripe objects to import.");
+      return;
+    }
+    Logging.writeText(formatImportMatches(matches));
+    if (!Globals.options.yes) {
+      if (!process.stdin.isTTY) {
+        throw new Error(
+          `${Globals.pluginName}: Confirm the import with --yes when not running in a terminal`
+        );
+      }
+      if (!(await confirm("Import these Stripe objects?"))) {
+        Logging.writeText("Import cancelled.");
+        return;
+      }
+    }
+
+    const summary = [];
+    for (const stripeHandler of stripeHandlers) {
+      summary.push(
+        ...(await stripeHandler.importStripeObjects(
+          matches.filter(
+            (match) =>
+              match.accountId === stripeHandler.accountId &&
+              match.connectedAccountId === stripeHandler.connectedAccountId
+          ),
+          webhookSecrets
+        ))
+      );
+    }
+    Logging.writeText(summary.join("\n"));
+  }
+
+  public async removeResourcesNotInConfig() {
+    this._deployed = true;
+    await this.validateConfigExists();
+    await this.runPreflight(true);
+    if (
+      !this._synced &&
+      !this._restored &&
+      !Globals.options["stripe-dry-run"]
+    ) {
+      Logging.logWarning(
+        `WARNING: ${SYNC_STATE_FILE} not found in ${getPackagePath(
+          Globals.serverless
+        )}, pruning every Stripe object marked for deletion or archival`
+      );
+    }
     const summary = [];
     for (const stripeHandler of this.getStripeHandlers()) {
-      const output = await stripeHandler.removeWebhooksNotInConfig();
+      const output = await stripeHandler.removeResourcesNotInConfig();
       summary.push(...output);
     }
     Globals.serverless.addServiceOutputSection(Globals.pluginName, summary);
   }
 
-  public async removeStripeWebhooks() {
-    this.validateConfigExists();
+  public async removeStripeResources() {
+    await this.validateConfigExists();
+    await this.runPreflight(true);
     const summary = [];
     for (const stripeHandler of this.getStripeHandlers()) {
-      const output = await stripeHandler.removeStripeWebhooks();
+      const output = await stripeHandler.removeStripeResources();
       summary.push(...output);
     }
 
@@ -16,4 +16,8 @@ export default class Logging {
   public static logWarning(message: string): void {
     Globals.v3Utils.log.warning(message);
   }
+
+  public static writeText(message: string): void {
+    Globals.v3Utils.writeText(message);
+  }
 }
@@ -0,0 +1,77 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { join, posix } from "path";
+import { StripeManifest } from "./runtime/manifest";
+
+export const DEFAULT_MANIFEST_DIRECTORY = "stripe-manifest";
+
+export const mergeManifests = (
+  stage: string,
+  manifests: Omit<StripeManifest, "stage">[]
+): StripeManifest =>
+  manifests.reduce<StripeManifest>(
+    (all, manifest) => ({
+      stage,
+      products: { ...all.products, ...manifest.products },
+      prices: { ...all.prices, ...manifest.prices },
+      portals: { ...all.portals, ...manifest.portals },
+    }),
+    { stage, products: {}, prices: {}, portals: {} }
+  );
+
+const getKeyType = (keys: string[]): string =>
+  keys.length > 0
+    ? keys.map((key) => JSON.stringify(key)).join(" | ")
+    : "never";
+
+/**
+ * Typed accessors for the manifest. The keys come from the config, so the
+ * module is the same for every stage and can be committed.
+ */
+export const getManifestModule = (manifest: StripeManifest): string =>
+  [
+    "// Generated by serverless-stripe from custom.stripe, do not edit.",
+    'import { loadStripeManifest } from "serverless-stripe/runtime";',
+    "",
+    `export type StripeProductKey = ${getKeyType(
+      Object.keys(manifest.products)
+    )};`,
+    `export type StripePriceKey = ${getKeyType(Object.keys(manifest.prices))};`,
+    `export type StripePortalKey = ${getKeyType(
+      Object.keys(manifest.portals)
+    )};`,
+    "",
+    "const manifest = () =>",
+    "  loadStripeManifest<StripeProductKey, StripePriceKey, StripePortalKey>();",
+    "",
+    "export const getStripeProduct = (key: StripeProductKey) =>",
+    "  manifest().products[key];",
+    "export const getStripePrice = (key: StripePriceKey) =>",
+    "  manifest().prices[key];",
+    "export const getStripePortal = (key: StripePortalKey) =>",
+    "  manifest().portals[key];",
+    "",
+  ].join("\n");
+
+/**
+ * Write the manifest of the stage and the typed module next to it
+ *
+ * @returns the path of the manifest relative to the service directory
+ */
+export const writeManifest = (
+  serviceDir: string,
+  directory: string,
+  manifest: StripeManifest
+): string => {
+  // the path is used in the package patterns and on Lambda
+  const manifestPath = posix.join(directory, `${manifest.stage}.json`);
+  mkdirSync(join(serviceDir, directory), { recursive: true });
+  writeFileSync(
+    join(serviceDir, manifestPath),
+    `${JSON.stringify(manifest, null, 2)}\n`
+  );
+  writeFileSync(
+    join(serviceDir, directory, "index.ts"),
+    getManifestModule(manifest)
+  );
+  return manifestPath;
+};
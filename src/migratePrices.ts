@@ -0,0 +1,156 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  unlinkSync,
+} from "fs";
+import { dirname, join } from "path";
+import { Stripe } from "stripe";
+
+export type ProrationBehavior =
+  Stripe.SubscriptionUpdateParams.ProrationBehavior;
+
+export const PRORATION_BEHAVIORS: ProrationBehavior[] = [
+  "none",
+  "create_prorations",
+  "always_invoice",
+];
+
+// subscriptions that renew and so keep charging the old price
+export const MIGRATED_STATUSES: Stripe.Subscription.Status[] = [
+  "active",
+  "trialing",
+  "past_due",
+];
+
+/**
+ * An item of a subscription on a price that is no longer in config
+ */
+export type PriceMigration = {
+  subscription: string;
+  item: string;
+  // internal id of the product, or its Stripe id when removed from config
+  product: string;
+  country: string;
+  from: string;
+  // id of the price config replacing the price, undefined when there is none
+  replacement?: string;
+  // undefined until the replacement has been deployed
+  to?: string;
+};
+
+/**
+ * A line of the progress log, written once Stripe accepted the update of
+ * the subscription
+ */
+export type MigrationLogEntry = {
+  subscription: string;
+  items: { item: string; from: string; to: string }[];
+  prorationBehavior: string;
+  migratedAt: string;
+};
+
+export const isMigratable = (migration: PriceMigration): boolean =>
+  Boolean(migration.to);
+
+/**
+ * The migrations grouped by subscription, as a subscription is updated with
+ * all of its items at once
+ */
+export const groupBySubscription = (
+  migrations: PriceMigration[]
+): PriceMigration[][] =>
+  migrations.reduce((groups, migration) => {
+    const group = groups.find(
+      (items) => items[0].subscription === migration.subscription
+    );
+    if (group) {
+      group.push(migration);
+    } else {
+      groups.push([migration]);
+    }
+    return groups;
+  }, [] as PriceMigration[][]);
+
+export const toBatches = <T>(items: T[], batchSize: number): T[][] => {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += batchSize) {
+    batches.push(items.slice(i, i + batchSize));
+  }
+  return batches;
+};
+
+const countSubscriptions = (migrations: PriceMigration[]) =>
+  new Set(migrations.map((migration) => migration.subscription)).size;
+
+/**
+ * Subscriptions per product and country, and per price within them
+ */
+export const formatMigrationReport = (
+  account: string,
+  migrations: PriceMigration[]
+): string => {
+  if (migrations.length === 0) {
+    return `${account}: no subscriptions on prices removed from config`;
+  }
+  const lines = [`${account}:`];
+  const groups = [
+    ...new Set(
+      migrations.map((migration) => `${migration.product} ${migration.country}`)
+    ),
+  ].sort();
+  for (const group of groups) {
+    const inGroup = migrations.filter(
+      (migration) => `${migration.product} ${migration.country}` === group
+    );
+    lines.push(`  ${group}: ${countSubscriptions(inGroup)} subscriptions`);
+    for (const from of [...new Set(inGroup.map((m) => m.from))]) {
+      const onPrice = inGroup.filter((migration) => migration.from === from);
+      const { replacement, to } = onPrice[0];
+      const target = !replacement
+        ? "no replacement in config"
+        : to
+        ? `${to} (${replacement})`
+        : `${replacement}, not deployed yet`;
+      lines.push(`    ${from} -> ${target}: ${countSubscriptions(onPrice)}`);
+    }
+  }
+  return lines.join("\n");
+};
+
+// not in .serverless, which is emptied by every package
+export const getMigrationLogPath = (
+  serviceDir: string,
+  accountId: string,
+  connectedAccountId?: string
+) =>
+  join(
+    serviceDir,
+    ".serverless-stripe",
+    `migrate-prices-${accountId}${
+      connectedAccountId ? `-${connectedAccountId}` : ""
+    }.jsonl`
+  );
+
+export const readMigrationLog = (logPath: string): MigrationLogEntry[] =>
+  existsSync(logPath)
+    ? readFileSync(logPath, "utf8")
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line))
+    : [];
+
+export const appendMigrationLog = (
+  logPath: string,
+  entry: MigrationLogEntry
+) => {
+  mkdirSync(dirname(logPath), { recursive: true });
+  appendFileSync(logPath, `${JSON.stringify(entry)}\n`);
+};
+
+export const deleteMigrationLog = (logPath: string) => {
+  if (existsSync(logPath)) {
+    unlinkSync(logPath);
+  }
+};
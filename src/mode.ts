@@ -0,0 +1,25 @@
+import { StripeMode, StripeModeConfig } from "./types";
+
+/**
+ * Pick the mode of the current stage, falling back to `default`
+ */
+export const selectMode = (
+  mode: StripeModeConfig | undefined,
+  stage: string
+): StripeMode | undefined => {
+  if (typeof mode === "object") {
+    return mode.stages[stage] ?? mode.default;
+  }
+  return mode;
+};
+
+/**
+ * Secret and restricted keys tell their mode in their prefix
+ */
+export const getKeyMode = (apiKey: string): StripeMode | undefined => {
+  const match = /^(?:sk|rk)_(test|live)_/.exec(apiKey);
+  return match ? (match[1] as StripeMode) : undefined;
+};
+
+export const getLivemodeMode = (livemode: boolean): StripeMode =>
+  livemode ? "live" : "test";
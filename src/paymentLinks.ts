@@ -0,0 +1,236 @@
+import { Stripe } from "stripe";
+import { CustomDomain, StripePaymentLinkConfig } from "./types";
+import { diffFields, FieldDiff } from "./diff";
+import { listAll } from "./stripeClient";
+
+// Metadata keys written by the plugin itself, the rest is user metadata
+export const PAYMENT_LINK_METADATA_KEYS = [
+  "stage",
+  "service",
+  "managedBy",
+  "connectedAccount",
+  "internalId",
+  "adjustableQuantity",
+  "toBeArchived",
+];
+
+type AllowedCountry =
+  Stripe.PaymentLinkCreateParams.ShippingAddressCollection.AllowedCountry;
+
+export const getAllPaymentLinksFromStripe = async (
+  stripe: Stripe
+): Promise<Stripe.PaymentLink[]> => {
+  const links = await listAll((params) => stripe.paymentLinks.list(params), {
+    // the prices of the line items are part of the identity of a link
+    expand: ["data.line_items"],
+  });
+  // an expanded list only holds the first 10 items
+  for (const link of links) {
+    if (link.line_items?.has_more) {
+      link.line_items = {
+        ...link.line_items,
+        data: await listAll((params) =>
+          stripe.paymentLinks.listLineItems(link.id, params)
+        ),
+        has_more: false,
+      };
+    }
+  }
+  return links;
+};
+
+/**
+ * The after completion redirect on the custom domain of the service
+ */
+export const getRedirectUrl = (customDomain: CustomDomain, path: string) => {
+  const basePath = customDomain.basePath
+    ? `/${customDomain.basePath.replace(/^\//, "")}`
+    : "";
+  return `https://${customDomain.domainName}${basePath}${path}`;
+};
+
+/**
+ * Stripe ids of the prices of the line items. The prices of a link can not
+ * be changed, so a link whose prices differ from the config is replaced.
+ */
+export const getLinkPrices = (link: Stripe.PaymentLink): string[] =>
+  (link.line_items?.data ?? []).map((item) => item.price?.id);
+
+/**
+ * Stripe does not return the adjustable quantities of line items, so they
+ * are kept in metadata to tell whether they changed, as [minimum, maximum]
+ * per line item, or null when the quantity is fixed
+ */
+const getAdjustableQuantity = (config: StripePaymentLinkConfig): string =>
+  JSON.stringify(
+    config.line_items.map((item) =>
+      item.adjustable_quantity?.enabled
+        ? [
+            item.adjustable_quantity.minimum ?? null,
+            item.adjustable_quantity.maximum ?? null,
+          ]
+        : null
+    )
+  );
+
+const parseAdjustableQuantity = (
+  value: string | undefined,
+  index: number
+): Stripe.PaymentLinkUpdateParams.LineItem.AdjustableQuantity => {
+  const limits = value ? JSON.parse(value)[index] : null;
+  return limits
+    ? {
+        enabled: true,
+        minimum: limits[0] ?? undefined,
+        maximum: limits[1] ?? undefined,
+      }
+    : { enabled: false };
+};
+
+const getUserMetadata = (metadata: { [key: string]: string }) =>
+  Object.keys(metadata)
+    .filter(
+      (key) => PAYMENT_LINK_METADATA_KEYS.indexOf(key) === -1 && metadata[key]
+    )
+    .sort()
+    .reduce(
+      (userMetadata, key) => ({ ...userMetadata, [key]: metadata[key] }),
+      {} as { [key: string]: string }
+    );
+
+const getRemovedMetadataKeys = (
+  config: StripePaymentLinkConfig,
+  link: Stripe.PaymentLink
+) =>
+  Object.keys(getUserMetadata(link.metadata)).filter(
+    (key) => !config.metadata || !(key in config.metadata)
+  );
+
+const getShippingAddressCollection = (config: StripePaymentLinkConfig) =>
+  config.allowed_countries
+    ? { allowed_countries: config.allowed_countries as AllowedCountry[] }
+    : undefined;
+
+const getAfterCompletion = (
+  redirectUrl?: string
+): Stripe.PaymentLinkUpdateParams.AfterCompletion =>
+  redirectUrl
+    ? { type: "redirect", redirect: { url: redirectUrl } }
+    : { type: "hosted_confirmation" };
+
+/**
+ * Compare the attributes that can be updated on an existing link
+ *
+ * @param redirectUrl the url the config redirects to, see getRedirectUrl
+ */
+export const diffPaymentLink = (
+  config: StripePaymentLinkConfig,
+  link: Stripe.PaymentLink,
+  redirectUrl?: string
+): FieldDiff[] => {
+  // user metadata removed from config shows up as a key set to null
+  const removedMetadata = getRemovedMetadataKeys(config, link).reduce(
+    (metadata, key) => ({ ...metadata, [key]: null }),
+    {}
+  );
+  return diffFields(
+    {
+      quantities: config.line_items.map((item) => item.quantity ?? 1),
+      adjustableQuantity: getAdjustableQuantity(config),
+      shipping_address_collection: getShippingAddressCollection(config) ?? null,
+      after_completion: getAfterCompletion(redirectUrl),
+      metadata: {
+        ...removedMetadata,
+        ...getUserMetadata(config.metadata ?? {}),
+      },
+    },
+    {
+      quantities: (link.line_items?.data ?? []).map((item) => item.quantity),
+      adjustableQuantity: link.metadata.adjustableQuantity,
+      shipping_address_collection: link.shipping_address_collection,
+      after_completion: link.after_completion,
+      metadata: getUserMetadata(link.metadata),
+    }
+  );
+};
+
+/**
+ * @param prices Stripe ids of the prices of the line items
+ */
+export const getPaymentLinkCreateParams = (
+  config: StripePaymentLinkConfig,
+  prices: string[],
+  redirectUrl: string | undefined,
+  metadata: { [key: string]: string }
+): Stripe.PaymentLinkCreateParams => ({
+  line_items: config.line_items.map((item, index) => ({
+    price: prices[index],
+    quantity: item.quantity ?? 1,
+    adjustable_quantity: item.adjustable_quantity,
+  })),
+  shipping_address_collection: getShippingAddressCollection(config),
+  after_completion: redirectUrl ? getAfterCompletion(redirectUrl) : undefined,
+  metadata: {
+    ...config.metadata,
+    ...metadata,
+    adjustableQuantity: getAdjustableQuantity(config),
+  },
+});
+
+/**
+ * Params that make the link match the config, unsetting the shipping
+ * address collection and user metadata removed from config
+ */
+export const getPaymentLinkUpdateParams = (
+  config: StripePaymentLinkConfig,
+  link: Stripe.PaymentLink,
+  redirectUrl: string | undefined,
+  metadata: { [key: string]: string }
+): Stripe.PaymentLinkUpdateParams => ({
+  line_items: (link.line_items?.data ?? []).map((item, index) => ({
+    id: item.id,
+    quantity: config.line_items[index].quantity ?? 1,
+    adjustable_quantity: config.line_items[index].adjustable_quantity ?? {
+      enabled: false,
+    },
+  })),
+  shipping_address_collection: getShippingAddressCollection(config) ?? "",
+  after_completion: getAfterCompletion(redirectUrl),
+  metadata: {
+    ...getRemovedMetadataKeys(config, link).reduce(
+      (unset, key) => ({ ...unset, [key]: "" }),
+      {}
+    ),
+    ...config.metadata,
+    ...metadata,
+    adjustableQuantity: getAdjustableQuantity(config),
+  },
+});
+
+/**
+ * The update params that undo getPaymentLinkUpdateParams, for rolling back
+ */
+export const getPaymentLinkRestoreParams = (
+  link: Stripe.PaymentLink,
+  update: Stripe.PaymentLinkUpdateParams
+): Record<string, unknown> => ({
+  line_items: (link.line_items?.data ?? []).map((item, index) => ({
+    id: item.id,
+    quantity: item.quantity,
+    adjustable_quantity: parseAdjustableQuantity(
+      link.metadata.adjustableQuantity,
+      index
+    ),
+  })),
+  shipping_address_collection: link.shipping_address_collection ?? "",
+  after_completion: getAfterCompletion(
+    link.after_completion.type === "redirect"
+      ? link.after_completion.redirect?.url
+      : undefined
+  ),
+  active: link.active,
+  metadata: Object.keys(update.metadata || {}).reduce(
+    (metadata, key) => ({ ...metadata, [key]: link.metadata[key] ?? "" }),
+    {}
+  ),
+});
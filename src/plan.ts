@@ -0,0 +1,87 @@
+import { FieldDiff } from "./diff";
+
+export type PlanAction =
+  "create" | "update" | "delete" | "archive" | "unchanged";
+export type PlanEntity =
+  | "webhook"
+  | "product"
+  | "price"
+  | "billingPortal"
+  | "coupon"
+  | "promotionCode"
+  | "paymentLink"
+  | "feature"
+  // a feature attached to a product
+  | "productFeature";
+
+export type PlannedChange = {
+  accountId: string;
+  connectedAccountId?: string;
+  entity: PlanEntity;
+  action: PlanAction;
+  // function name for webhooks, internal id for everything else
+  internalId: string;
+  stripeId?: string;
+  diff: FieldDiff[];
+};
+
+const ACTION_SYMBOLS: Record<PlanAction, string> = {
+  create: "+",
+  update: "~",
+  delete: "-",
+  archive: "-",
+  unchanged: "=",
+};
+
+export const formatAccount = (
+  accountId: string,
+  connectedAccountId?: string
+): string =>
+  connectedAccountId
+    ? `${accountId} (connected account ${connectedAccountId})`
+    : accountId;
+
+export const hasPendingChanges = (changes: PlannedChange[]): boolean =>
+  changes.some((change) => change.action !== "unchanged");
+
+const formatValue = (value: unknown): string =>
+  value === undefined ? "(none)" : JSON.stringify(value);
+
+const formatChange = (change: PlannedChange): string[] => {
+  const TAB = "  ";
+  const stripeId = change.stripeId ? ` (${change.stripeId})` : "";
+  const lines = [
+    `${TAB}${ACTION_SYMBOLS[change.action]} ${change.entity} ${change.internalId}${stripeId}`,
+  ];
+  for (const fieldDiff of change.diff) {
+    const value =
+      change.action === "create"
+        ? formatValue(fieldDiff.after)
+        : `${formatValue(fieldDiff.before)} -> ${formatValue(fieldDiff.after)}`;
+    lines.push(`${TAB}${TAB}${TAB}${fieldDiff.field}: ${value}`);
+  }
+  return lines;
+};
+
+export const formatPlan = (changes: PlannedChange[]): string => {
+  const lines: string[] = [];
+  const getAccount = (change: PlannedChange) =>
+    formatAccount(change.accountId, change.connectedAccountId);
+  const accounts = [...new Set(changes.map(getAccount))];
+  for (const account of accounts) {
+    lines.push(`Stripe plan for account ${account}:`);
+    for (const change of changes.filter((c) => getAccount(c) === account)) {
+      lines.push(...formatChange(change));
+    }
+    lines.push("");
+  }
+
+  const count = (action: PlanAction) =>
+    changes.filter((change) => change.action === action).length;
+  lines.push(
+    `Plan: ${count("create")} to create, ${count("update")} to update, ` +
+      `${count("delete")} to delete, ${count("archive")} to archive, ` +
+      `${count("unchanged")} unchanged.`
+  );
+  return lines.join("\n");
+};
@@ -0,0 +1,102 @@
+import { Stripe } from "stripe";
+import { getEntitlements } from "./entitlements";
+
+/**
+ * Resources of the Stripe API the plugin uses, named as the permissions of
+ * restricted keys are named in the Stripe dashboard
+ */
+export type StripeResource =
+  | "Webhook Endpoints"
+  | "Products"
+  | "Prices"
+  | "Customer portal"
+  | "Coupons"
+  | "Promotion codes"
+  | "Subscriptions"
+  | "Payment Links"
+  | "Entitlements";
+
+export type RequiredPermission = {
+  resource: StripeResource;
+  access: "Read" | "Write";
+};
+
+// no object has this id, so the probes below never change anything
+const PROBE_ID = "serverless_stripe_preflight";
+
+const probes: Record<
+  StripeResource,
+  {
+    read(stripe: Stripe): Promise<unknown>;
+    write(stripe: Stripe): Promise<unknown>;
+  }
+> = {
+  "Webhook Endpoints": {
+    read: (stripe) => stripe.webhookEndpoints.list({ limit: 1 }),
+    write: (stripe) => stripe.webhookEndpoints.update(PROBE_ID, {}),
+  },
+  Products: {
+    read: (stripe) => stripe.products.list({ limit: 1 }),
+    write: (stripe) => stripe.products.update(PROBE_ID, {}),
+  },
+  Prices: {
+    read: (stripe) => stripe.prices.list({ limit: 1 }),
+    write: (stripe) => stripe.prices.update(PROBE_ID, {}),
+  },
+  "Customer portal": {
+    read: (stripe) => stripe.billingPortal.configurations.list({ limit: 1 }),
+    write: (stripe) => stripe.billingPortal.configurations.update(PROBE_ID, {}),
+  },
+  Coupons: {
+    read: (stripe) => stripe.coupons.list({ limit: 1 }),
+    write: (stripe) => stripe.coupons.update(PROBE_ID, {}),
+  },
+  "Promotion codes": {
+    read: (stripe) => stripe.promotionCodes.list({ limit: 1 }),
+    write: (stripe) => stripe.promotionCodes.update(PROBE_ID, {}),
+  },
+  Subscriptions: {
+    read: (stripe) => stripe.subscriptions.list({ limit: 1 }),
+    write: (stripe) => stripe.subscriptions.update(PROBE_ID, {}),
+  },
+  "Payment Links": {
+    read: (stripe) => stripe.paymentLinks.list({ limit: 1 }),
+    write: (stripe) => stripe.paymentLinks.update(PROBE_ID, {}),
+  },
+  Entitlements: {
+    read: (stripe) => getEntitlements(stripe).listFeatures({ limit: 1 }),
+    write: (stripe) => getEntitlements(stripe).updateFeature(PROBE_ID, {}),
+  },
+};
+
+/**
+ * Find the permissions the key of the client lacks. Stripe checks the
+ * permissions of a request before looking up the object, so an update of an
+ * object that does not exist tells whether the key may write without
+ * writing anything.
+ */
+export const findMissingPermissions = async (
+  stripe: Stripe,
+  required: RequiredPermission[]
+): Promise<RequiredPermission[]> => {
+  const missing: RequiredPermission[] = [];
+  for (const permission of required) {
+    const probe = probes[permission.resource];
+    try {
+      await (permission.access === "Read"
+        ? probe.read(stripe)
+        : probe.write(stripe));
+    } catch (e) {
+      if (e instanceof Stripe.errors.StripePermissionError) {
+        missing.push(permission);
+      } else if (!(e instanceof Stripe.errors.StripeInvalidRequestError)) {
+        // e.g. an invalid key, which fails every request
+        throw e;
+      }
+    }
+  }
+  return missing;
+};
+
+export const formatPermission = (permission: RequiredPermission): string =>
+  `${permission.resource}: ${permission.access}`;
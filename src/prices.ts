@@ -0,0 +1,135 @@
+import { Stripe } from "stripe";
+import { StripePriceConfig } from "./types";
+import { diffFields, FieldDiff } from "./diff";
+
+// Metadata keys written by the plugin itself, the rest is user metadata
+const PLUGIN_METADATA_KEYS = [
+  "stage",
+  "service",
+  "managedBy",
+  "connectedAccount",
+  "country",
+  "internalId",
+  "toBeArchived",
+];
+
+const getUserMetadataEntries = (metadata: { [key: string]: string }) =>
+  Object.keys(metadata)
+    .filter((key) => PLUGIN_METADATA_KEYS.indexOf(key) === -1 && metadata[key])
+    .sort()
+    .map((key) => [key, metadata[key]]);
+
+/**
+ * Every attribute that makes up the identity of a price. Prices are
+ * immutable in this plugin: if any of these change, a new price is created.
+ */
+export const getPriceConfigIdentity = (config: StripePriceConfig) => ({
+  currency: config.currency.toLowerCase(),
+  unit_amount: config.tiers ? null : config.price,
+  interval: config.interval ?? null,
+  interval_count: config.interval ? config.interval_count ?? 1 : null,
+  usage_type: config.interval ? config.usage_type ?? "licensed" : null,
+  billing_scheme: config.tiers ? "tiered" : "per_unit",
+  tiers_mode: config.tiers_mode ?? null,
+  tiers: config.tiers
+    ? config.tiers.map((tier) => ({
+        up_to: tier.up_to === "inf" ? null : tier.up_to,
+        unit_amount: tier.unit_amount ?? null,
+        flat_amount: tier.flat_amount ?? null,
+      }))
+    : null,
+  transform_quantity: config.transform_quantity ?? null,
+  tax_behavior: config.tax_behavior ?? "unspecified",
+  lookup_key: config.lookup_key ?? null,
+  nickname: config.nickname ?? null,
+  country: config.countryCode,
+  metadata: getUserMetadataEntries(config.metadata ?? {}),
+});
+
+const getPriceIdentity = (
+  price: Stripe.Price
+): ReturnType<typeof getPriceConfigIdentity> => ({
+  currency: price.currency,
+  unit_amount: price.billing_scheme === "tiered" ? null : price.unit_amount,
+  interval: price.recurring?.interval ?? null,
+  interval_count: price.recurring?.interval_count ?? null,
+  usage_type: price.recurring?.usage_type ?? null,
+  billing_scheme: price.billing_scheme,
+  tiers_mode: price.tiers_mode,
+  // tiers are only returned when expanded, see getAllPricesFromStripe
+  tiers: price.tiers
+    ? price.tiers.map((tier) => ({
+        up_to: tier.up_to,
+        unit_amount: tier.unit_amount,
+        flat_amount: tier.flat_amount,
+      }))
+    : null,
+  transform_quantity: price.transform_quantity
+    ? {
+        divide_by: price.transform_quantity.divide_by,
+        round: price.transform_quantity.round,
+      }
+    : null,
+  tax_behavior: price.tax_behavior ?? "unspecified",
+  lookup_key: price.lookup_key,
+  nickname: price.nickname,
+  country: price.metadata.country,
+  metadata: getUserMetadataEntries(price.metadata),
+});
+
+export const diffPrice = (
+  config: StripePriceConfig,
+  price: Stripe.Price
+): FieldDiff[] =>
+  diffFields(getPriceConfigIdentity(config), getPriceIdentity(price));
+
+/**
+ * Compare a price created outside of the plugin, e.g. in the dashboard,
+ * which has no country until it is imported
+ */
+export const diffUnmanagedPrice = (
+  config: StripePriceConfig,
+  price: Stripe.Price
+): FieldDiff[] =>
+  diffFields(
+    // undefined fields are not compared
+    { ...getPriceConfigIdentity(config), country: undefined },
+    getPriceIdentity(price)
+  );
+
+export const getPriceCreateParams = (
+  config: StripePriceConfig,
+  product: string,
+  metadata: { [key: string]: string }
+): Stripe.PriceCreateParams => {
+  const params: Stripe.PriceCreateParams = {
+    product,
+    currency: config.currency,
+    tax_behavior: config.tax_behavior,
+    lookup_key: config.lookup_key,
+    nickname: config.nickname,
+    transform_quantity: config.transform_quantity,
+    metadata: { ...config.metadata, ...metadata },
+    // the created price is compared with its config, see diffPrice
+    expand: ["tiers"],
+  };
+  if (config.tiers) {
+    params.billing_scheme = "tiered";
+    params.tiers = config.tiers;
+    params.tiers_mode = config.tiers_mode;
+  } else {
+    params.unit_amount = config.price;
+  }
+  if (config.interval) {
+    params.recurring = {
+      interval: config.interval,
+      interval_count: config.interval_count,
+      usage_type: config.usage_type,
+    };
+  }
+  if (config.lookup_key) {
+    // the lookup key moves from the previous version of the price
+    params.transfer_lookup_key = true;
+  }
+  return params;
+};
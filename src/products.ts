@@ -1,29 +1,176 @@
 import { Stripe } from "stripe";
+import { listAll } from "./stripeClient";
+import { StripeProductConfig } from "./types";
+import { diffFields, FieldDiff } from "./diff";
 
+export const getAllProductsFromStripe = async (
+  stripe: Stripe
+): Promise<Stripe.Product[]> =>
+  await listAll((params) => stripe.products.list(params));
 
-export const getAllProductsFromStripe = async (stripe: Stripe): Promise<Stripe.Product[]> => {
-  const getAllProducts = async (
-    starting_after?: string,
-    products: Stripe.Product[] = []
-  ): Promise<Stripe.Product[]> => {
-    const productResponse = await stripe.products.list({
-      limit: 100, // adjust this number based on how many records you want to fetch per request
-      starting_after,
-    });
+export const getAllPricesFromStripe = async (
+  stripe: Stripe,
+  product?: string
+): Promise<Stripe.Price[]> =>
+  await listAll((params) => stripe.prices.list(params), {
+    product,
+    // tiers are part of the identity of a price
+    expand: ["data.tiers"],
+  });
 
-    const allProducts = [...products, ...productResponse.data];
+// Metadata keys written by the plugin itself, the rest is user metadata
+export const PRODUCT_METADATA_KEYS = [
+  "stage",
+  "service",
+  "managedBy",
+  "connectedAccount",
+  "internalId",
+  "toBeArchived",
+];
 
-    if (productResponse.has_more) {
-      // Get the last product in the list
-      const lastProduct =
-        productResponse.data[productResponse.data.length - 1];
-      // Recursively fetch more products
-      return await getAllProducts(lastProduct.id, allProducts);
-    }
+const getUserMetadata = (metadata: { [key: string]: string }) =>
+  Object.keys(metadata)
+    .filter((key) => PRODUCT_METADATA_KEYS.indexOf(key) === -1 && metadata[key])
+    .sort()
+    .reduce(
+      (userMetadata, key) => ({ ...userMetadata, [key]: metadata[key] }),
+      {} as { [key: string]: string }
+    );
 
-    return allProducts;
+const getStripeId = (object: string | { id: string } | null) =>
+  typeof object === "string" ? object : (object?.id ?? null);
+
+/**
+ * The attributes of a product as configured. statement_descriptor,
+ * shippable and default_price can not be unset in Stripe, so they are only
+ * compared when configured.
+ *
+ * @param defaultPrice Stripe id of the price config referred to by
+ * default_price
+ */
+export const getProductConfigFields = (
+  config: StripeProductConfig,
+  defaultPrice?: string
+) => ({
+  name: config.name,
+  description: config.description ?? config.internal.description,
+  images: config.images ?? [],
+  features: config.features ?? [],
+  tax_code: config.tax_code ?? null,
+  unit_label: config.unit_label ?? null,
+  statement_descriptor: config.statement_descriptor,
+  url: config.url ?? null,
+  shippable: config.shippable,
+  default_price: config.default_price ? defaultPrice : undefined,
+  metadata: getUserMetadata(config.metadata ?? {}),
+});
+
+const getProductFields = (
+  product: Stripe.Product
+): ReturnType<typeof getProductConfigFields> => ({
+  name: product.name,
+  description: product.description ?? null,
+  images: product.images,
+  features: product.features.map((feature) => ({ name: feature.name ?? "" })),
+  tax_code: getStripeId(product.tax_code),
+  unit_label: product.unit_label ?? null,
+  statement_descriptor: product.statement_descriptor ?? undefined,
+  url: product.url ?? null,
+  shippable: product.shippable ?? undefined,
+  default_price: getStripeId(product.default_price) ?? undefined,
+  metadata: getUserMetadata(product.metadata),
+});
+
+export const diffProduct = (
+  config: StripeProductConfig,
+  product: Stripe.Product,
+  defaultPrice?: string
+): FieldDiff[] => {
+  const fields = getProductFields(product);
+  // user metadata removed from config shows up as a key set to null
+  const removedMetadata = Object.keys(fields.metadata)
+    .filter((key) => !config.metadata || !(key in config.metadata))
+    .reduce((metadata, key) => ({ ...metadata, [key]: null }), {});
+  const configFields = getProductConfigFields(config, defaultPrice);
+  return diffFields(
+    {
+      ...configFields,
+      metadata: { ...removedMetadata, ...configFields.metadata },
+    },
+    fields
+  );
+};
+
+export const getProductCreateParams = (
+  config: StripeProductConfig,
+  metadata: { [key: string]: string }
+): Stripe.ProductCreateParams => ({
+  name: config.name,
+  description: config.description ?? config.internal.description,
+  images: config.images,
+  features: config.features,
+  tax_code: config.tax_code,
+  unit_label: config.unit_label,
+  statement_descriptor: config.statement_descriptor,
+  url: config.url,
+  shippable: config.shippable,
+  metadata: { ...config.metadata, ...metadata },
+});
+
+/**
+ * Params that make the product match the config, unsetting attributes and
+ * user metadata removed from config
+ */
+export const getProductUpdateParams = (
+  config: StripeProductConfig,
+  product: Stripe.Product,
+  metadata: { [key: string]: string },
+  defaultPrice?: string
+): Stripe.ProductUpdateParams => {
+  const removedMetadata = Object.keys(getUserMetadata(product.metadata))
+    .filter((key) => !config.metadata || !(key in config.metadata))
+    .reduce((unset, key) => ({ ...unset, [key]: "" }), {});
+  return {
+    name: config.name,
+    description: config.description ?? config.internal.description,
+    images: config.images && config.images.length > 0 ? config.images : "",
+    features:
+      config.features && config.features.length > 0 ? config.features : "",
+    tax_code: config.tax_code ?? "",
+    unit_label: config.unit_label ?? "",
+    statement_descriptor: config.statement_descriptor,
+    url: config.url ?? "",
+    shippable: config.shippable,
+    default_price: config.default_price ? defaultPrice : undefined,
+    metadata: { ...removedMetadata, ...config.metadata, ...metadata },
   };
+};
 
-  const products = await getAllProducts();
-  return products;
-}
\ No newline at end of file
+/**
+ * The update params that undo getProductUpdateParams, for rolling back
+ */
+export const getProductRestoreParams = (
+  product: Stripe.Product,
+  update: Stripe.ProductUpdateParams
+): Record<string, unknown> => {
+  const fields = getProductFields(product);
+  return {
+    name: fields.name,
+    description: fields.description,
+    images: fields.images.length > 0 ? fields.images : "",
+    features: fields.features.length > 0 ? fields.features : "",
+    tax_code: fields.tax_code ?? "",
+    unit_label: fields.unit_label ?? "",
+    statement_descriptor: update.statement_descriptor
+      ? fields.statement_descriptor
+      : undefined,
+    url: fields.url ?? "",
+    shippable: update.shippable !== undefined ? fields.shippable : undefined,
+    default_price: update.default_price ? fields.default_price : undefined,
+    active: product.active,
+    metadata: Object.keys(update.metadata || {}).reduce(
+      (metadata, key) => ({ ...metadata, [key]: product.metadata[key] ?? "" }),
+      {}
+    ),
+  };
+};
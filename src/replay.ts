@@ -0,0 +1,111 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join } from "path";
+
+/**
+ * Progress of a replay, so that an interrupted backfill continues after the
+ * last event the function accepted
+ */
+export type ReplayCursor = {
+  functionName: string;
+  accountId: string;
+  // --since as given, a duration resolves to a different since on every run
+  sinceOption: string;
+  since: number;
+  // undefined when every event type of the endpoint is replayed
+  types?: string[];
+  lastEventId: string;
+  replayed: number;
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+};
+
+/**
+ * Parse `--since`, given as a duration back from now (`90m`, `12h`, `7d`),
+ * a unix timestamp or an ISO 8601 date
+ *
+ * @returns unix timestamp in seconds
+ */
+export const parseSince = (value: string, now = Date.now()): number => {
+  const duration = /^(\d+)([mhd])$/.exec(value);
+  if (duration) {
+    return (
+      Math.floor(now / 1000) - Number(duration[1]) * DURATION_UNITS[duration[2]]
+    );
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  const date = Date.parse(value);
+  if (isNaN(date)) {
+    throw new Error(
+      `Invalid --since ${value}, use e.g. 12h, 7d, a unix timestamp or an ISO 8601 date`
+    );
+  }
+  return Math.floor(date / 1000);
+};
+
+/**
+ * The event types to replay, limited to the types the endpoint is enabled
+ * for. Undefined means every type of an endpoint enabled for all events.
+ */
+export const selectReplayTypes = (
+  enabledEvents: string[],
+  requested: string[]
+): string[] | undefined => {
+  const allEnabled = enabledEvents.indexOf("*") !== -1;
+  if (requested.length === 0) {
+    return allEnabled ? undefined : enabledEvents;
+  }
+  const notEnabled = requested.filter(
+    (type) => !allEnabled && enabledEvents.indexOf(type) === -1
+  );
+  if (notEnabled.length > 0) {
+    throw new Error(`The endpoint is not enabled for ${notEnabled.join(", ")}`);
+  }
+  return requested;
+};
+
+// not in .serverless, which is emptied by the deploy of a fixed function
+export const getCursorPath = (serviceDir: string, functionName: string) =>
+  join(serviceDir, ".serverless-stripe", `replay-${functionName}.json`);
+
+export const readCursor = (cursorPath: string): ReplayCursor | undefined =>
+  existsSync(cursorPath)
+    ? JSON.parse(readFileSync(cursorPath, "utf8"))
+    : undefined;
+
+export const writeCursor = (cursorPath: string, cursor: ReplayCursor) => {
+  mkdirSync(dirname(cursorPath), { recursive: true });
+  writeFileSync(cursorPath, `${JSON.stringify(cursor, null, 2)}\n`);
+};
+
+export const deleteCursor = (cursorPath: string) => {
+  if (existsSync(cursorPath)) {
+    unlinkSync(cursorPath);
+  }
+};
+
+/**
+ * Whether a cursor was left by a replay of the same events
+ */
+export const isSameReplay = (
+  cursor: ReplayCursor,
+  replay: Omit<ReplayCursor, "since" | "lastEventId" | "replayed">
+): boolean =>
+  cursor.functionName === replay.functionName &&
+  cursor.accountId === replay.accountId &&
+  cursor.sinceOption === replay.sinceOption &&
+  JSON.stringify(cursor.types) === JSON.stringify(replay.types);
+
+export const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
@@ -0,0 +1,102 @@
+import { Stripe } from "stripe";
+import { PlanEntity } from "./plan";
+import { getEntitlements } from "./entitlements";
+
+/**
+ * State of a Stripe object before a deploy changed it
+ */
+export type StripeSnapshot = {
+  entity: PlanEntity;
+  stripeId: string;
+  // function name for webhooks, internal id for everything else
+  internalId: string;
+  // update params restoring the object, undefined when the deploy created it
+  previous?: Record<string, unknown>;
+  // the product of a productFeature
+  parentId?: string;
+};
+
+const isMissingError = (error: unknown): boolean =>
+  error instanceof Stripe.errors.StripeInvalidRequestError &&
+  error.code === "resource_missing";
+
+const restore = async (
+  stripe: Stripe,
+  snapshot: StripeSnapshot
+): Promise<string> => {
+  const { entity, stripeId, previous, parentId } = snapshot;
+  // objects created by the deploy are removed the same way they are
+  // archived, so the next deploy picks them up again
+  const params = previous ?? { active: false };
+  switch (entity) {
+    case "webhook":
+      if (!previous) {
+        await stripe.webhookEndpoints.del(stripeId);
+        return "Deleted";
+      }
+      await stripe.webhookEndpoints.update(stripeId, params);
+      return "Restored";
+    case "product":
+      await stripe.products.update(stripeId, params);
+      break;
+    case "price":
+      await stripe.prices.update(stripeId, params);
+      break;
+    case "billingPortal":
+      await stripe.billingPortal.configurations.update(stripeId, params);
+      break;
+    case "coupon":
+      if (!previous) {
+        await stripe.coupons.del(stripeId);
+        return "Deleted";
+      }
+      await stripe.coupons.update(stripeId, params);
+      break;
+    case "promotionCode":
+      await stripe.promotionCodes.update(stripeId, params);
+      break;
+    case "paymentLink":
+      await stripe.paymentLinks.update(stripeId, params);
+      break;
+    case "feature":
+      await getEntitlements(stripe).updateFeature(stripeId, params);
+      break;
+    case "productFeature":
+      // attachments are only created by a deploy
+      await getEntitlements(stripe).detachFeature(parentId as string, stripeId);
+      return "Detached";
+  }
+  return previous ? "Restored" : "Archived";
+};
+
+/**
+ * Undo the changes of a deploy, latest first so that e.g. a promotion code
+ * is deactivated before the code it replaced is activated again
+ *
+ * @returns a line per restored object
+ */
+export const restoreSnapshots = async (
+  stripe: Stripe,
+  snapshots: StripeSnapshot[]
+): Promise<{ restored: string[]; skipped: string[] }> => {
+  const restored: string[] = [];
+  const skipped: string[] = [];
+  for (const snapshot of [...snapshots].reverse()) {
+    const label = `${snapshot.entity} ${snapshot.stripeId} (${snapshot.internalId})`;
+    try {
+      restored.push(`${await restore(stripe, snapshot)} ${label}`);
+    } catch (error) {
+      // e.g. a webhook already deleted after a successful deploy
+      if (!isMissingError(error)) {
+        throw error;
+      }
+      skipped.push(label);
+    }
+  }
+  return { restored, skipped };
+};
+
+export const formatSnapshot = (snapshot: StripeSnapshot): string =>
+  `  ${snapshot.previous ? "~" : "-"} ${snapshot.entity} ${
+    snapshot.internalId
+  } ${snapshot.stripeId}`;
@@ -0,0 +1,43 @@
+/**
+ * Keeps track of handled events so that an event Stripe delivers more than
+ * once is only handled once. Implement this on top of a shared store such as
+ * DynamoDB to deduplicate across Lambda containers.
+ */
+export interface IdempotencyStore {
+  /**
+   * Claim an event for handling. Resolves to false when the event has
+   * already been claimed.
+   */
+  claim(eventId: string): Promise<boolean>;
+
+  /**
+   * Release a claimed event after its handler failed, so that the retry
+   * from Stripe is handled again.
+   */
+  release(eventId: string): Promise<void>;
+}
+
+/**
+ * Idempotency store that only lives as long as the Lambda container
+ */
+export const createMemoryIdempotencyStore = (
+  maxSize = 1000
+): IdempotencyStore => {
+  const eventIds = new Set<string>();
+  return {
+    async claim(eventId: string) {
+      if (eventIds.has(eventId)) {
+        return false;
+      }
+      eventIds.add(eventId);
+      if (eventIds.size > maxSize) {
+        // sets iterate in insertion order, drop the oldest event
+        eventIds.delete(eventIds.values().next().value);
+      }
+      return true;
+    },
+    async release(eventId: string) {
+      eventIds.delete(eventId);
+    },
+  };
+};
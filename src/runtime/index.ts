@@ -0,0 +1,18 @@
+export {
+  createWebhookHandler,
+  WebhookContext,
+  WebhookEventHandler,
+  WebhookEventHandlers,
+  WebhookHandlerOptions,
+  WebhookRequest,
+  WebhookResponse,
+} from "./webhookHandler";
+export { createMemoryIdempotencyStore, IdempotencyStore } from "./idempotency";
+export { getWebhookSecret, resolveWebhookSecrets } from "./webhookSecret";
+export {
+  loadStripeManifest,
+  StripeManifest,
+  StripeManifestPortal,
+  StripeManifestPrice,
+  StripeManifestProduct,
+} from "./manifest";
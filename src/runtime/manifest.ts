@@ -0,0 +1,69 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+
+/**
+ * Environment variable the plugin uses to tell the functions where the
+ * manifest of the stage is found in the package
+ */
+export const MANIFEST_ENV_VARIABLE = "SERVERLESS_STRIPE_MANIFEST";
+
+export type StripeManifestProduct = {
+  stripeId: string;
+  accountId: string;
+};
+
+export type StripeManifestPrice = {
+  stripeId: string;
+  accountId: string;
+  // internal.id of the product
+  product: string;
+  currency: string;
+  // undefined for one-time prices
+  interval?: "day" | "week" | "month" | "year";
+  country: string;
+};
+
+export type StripeManifestPortal = {
+  stripeId: string;
+  accountId: string;
+};
+
+export type StripeManifest<
+  ProductKey extends string = string,
+  PriceKey extends string = string,
+  PortalKey extends string = string
+> = {
+  stage: string;
+  products: Record<ProductKey, StripeManifestProduct>;
+  prices: Record<PriceKey, StripeManifestPrice>;
+  portals: Record<PortalKey, StripeManifestPortal>;
+};
+
+let manifest: StripeManifest;
+
+/**
+ * Read the manifest of the deployed stage. The keys are the `internal.id`s
+ * of products, the `id`s of prices and the `internalId`s of portals. Use
+ * the module generated next to the manifest for typed keys.
+ */
+export const loadStripeManifest = <
+  ProductKey extends string = string,
+  PriceKey extends string = string,
+  PortalKey extends string = string
+>(): StripeManifest<ProductKey, PriceKey, PortalKey> => {
+  if (!manifest) {
+    const path = process.env[MANIFEST_ENV_VARIABLE];
+    if (!path) {
+      throw new Error(
+        `${MANIFEST_ENV_VARIABLE} is not set, is the function deployed with serverless-stripe?`
+      );
+    }
+    manifest = JSON.parse(
+      readFileSync(
+        resolve(process.env.LAMBDA_TASK_ROOT || process.cwd(), path),
+        "utf8"
+      )
+    );
+  }
+  return manifest as StripeManifest<ProductKey, PriceKey, PortalKey>;
+};
@@ -0,0 +1,140 @@
+import { Stripe } from "stripe";
+import { IdempotencyStore } from "./idempotency";
+import { resolveWebhookSecrets } from "./webhookSecret";
+
+/**
+ * The parts of a REST API, HTTP API or function URL event that are needed
+ * to handle a webhook
+ */
+export interface WebhookRequest {
+  body?: string | null;
+  isBase64Encoded?: boolean;
+  headers?: { [name: string]: string | undefined } | null;
+  queryStringParameters?: { [name: string]: string | undefined } | null;
+}
+
+export interface WebhookResponse {
+  statusCode: number;
+  body: string;
+}
+
+export type WebhookContext = {
+  // the stripeAccountKey of the webhook URL, i.e. accountId in the config
+  accountKey?: string;
+  request: WebhookRequest;
+};
+
+export type WebhookEventHandler<T extends Stripe.Event.Type> = (
+  event: Extract<Stripe.Event, { type: T }>,
+  context: WebhookContext
+) => Promise<void> | void;
+
+export type WebhookEventHandlers = {
+  [T in Stripe.Event.Type]?: WebhookEventHandler<T>;
+};
+
+export type WebhookHandlerOptions = {
+  handlers: WebhookEventHandlers;
+  idempotencyStore?: IdempotencyStore;
+  // overrides the secrets configured by the plugin
+  getSecret?: (
+    accountKey?: string
+  ) => Promise<string | string[]> | string | string[];
+  // used for signature verification only
+  stripe?: Stripe;
+  // maximum age of a signature in seconds, defaults to the Stripe default
+  tolerance?: number;
+};
+
+const response = (statusCode: number, message: string): WebhookResponse => ({
+  statusCode,
+  body: JSON.stringify({ message }),
+});
+
+const getHeader = (request: WebhookRequest, name: string) => {
+  const headers = request.headers || {};
+  const key = Object.keys(headers).find(
+    (header) => header.toLowerCase() === name.toLowerCase()
+  );
+  return key ? headers[key] : undefined;
+};
+
+const getRawBody = (request: WebhookRequest): string => {
+  const body = request.body || "";
+  return request.isBase64Encoded
+    ? Buffer.from(body, "base64").toString("utf8")
+    : body;
+};
+
+/**
+ * Create a Lambda handler for a webhook function of this plugin. The handler
+ * verifies the Stripe-Signature header, skips events that have already been
+ * handled and dispatches the event to the handler of its type. Event types
+ * without a handler are acknowledged and ignored.
+ */
+export const createWebhookHandler = (options: WebhookHandlerOptions) => {
+  const stripe =
+    options.stripe ||
+    new Stripe("signature-verification-only", { apiVersion: "2023-10-16" });
+
+  return async (request: WebhookRequest): Promise<WebhookResponse> => {
+    const signature = getHeader(request, "Stripe-Signature");
+    if (!signature) {
+      return response(400, "Missing Stripe-Signature header");
+    }
+    const accountKey = request.queryStringParameters?.stripeAccountKey;
+    const getSecrets = async (refresh: boolean): Promise<string[]> => {
+      if (options.getSecret) {
+        return [].concat(await options.getSecret(accountKey));
+      }
+      return resolveWebhookSecrets(accountKey, refresh);
+    };
+    const verify = (secrets: string[]): Stripe.Event | undefined => {
+      for (const secret of secrets) {
+        try {
+          return stripe.webhooks.constructEvent(
+            getRawBody(request),
+            signature,
+            secret,
+            options.tolerance
+          );
+        } catch (e) {
+          // try the next secret
+        }
+      }
+      return undefined;
+    };
+
+    const secrets = await getSecrets(false);
+    if (secrets.length === 0) {
+      return response(400, `Unknown Stripe account ${accountKey}`);
+    }
+    // a cached secret may have been rotated since the container started, it
+    // is fetched again at most once a minute
+    const event = verify(secrets) ?? verify(await getSecrets(true));
+    if (!event) {
+      return response(400, "Invalid signature");
+    }
+
+    const handler = options.handlers[event.type] as WebhookEventHandler<
+      typeof event.type
+    >;
+    if (!handler) {
+      return response(200, `Ignored ${event.type}`);
+    }
+
+    const store = options.idempotencyStore;
+    if (store && !(await store.claim(event.id))) {
+      return response(200, `Event ${event.id} already handled`);
+    }
+    try {
+      await handler(event, { accountKey, request });
+    } catch (e) {
+      if (store) {
+        await store.release(event.id);
+      }
+      throw e;
+    }
+    return response(200, `Handled ${event.type}`);
+  };
+};
@@ -0,0 +1,109 @@
+import { SSMClient, GetParameterCommand } from "@aws-sdk/client-ssm";
+
+/**
+ * Environment variable the plugin uses to tell a webhook function where the
+ * secret of each Stripe account is found
+ */
+export const WEBHOOK_ACCOUNTS_ENV_VARIABLE = "SERVERLESS_STRIPE_WEBHOOKS";
+
+export type WebhookAccounts = {
+  [accountId: string]: {
+    envVariableName: string;
+    secretSource: "environment" | "ssm";
+    // set while a secret replaced by rotate-secret is being retired
+    previousEnvVariableName?: string;
+  };
+};
+
+// a refresh is only sent to SSM when the cached secret is older than this,
+// so requests with invalid signatures can not exhaust the GetParameter quota
+const MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+
+let ssmClient: SSMClient;
+const secrets: { [parameterName: string]: Promise<string> } = {};
+const fetchedAt: { [parameterName: string]: number } = {};
+
+const fetchWebhookSecret = async (parameterName: string): Promise<string> => {
+  ssmClient = ssmClient || new SSMClient({});
+  const response = await ssmClient.send(
+    new GetParameterCommand({ Name: parameterName, WithDecryption: true })
+  );
+  if (!response.Parameter?.Value) {
+    throw new Error(`Webhook secret parameter ${parameterName} is empty`);
+  }
+  return response.Parameter.Value;
+};
+
+/**
+ * Read a webhook signing secret from SSM when the webhook is configured with
+ * `secretSource: "ssm"`. The secret is cached for the lifetime of the Lambda
+ * container, so SSM is only called on cold start.
+ *
+ * @param parameterName the value of the `webhookSecretEnvVariableName`
+ * environment variable
+ * @param refresh fetch the secret again, e.g. after it has been rotated,
+ * unless it was fetched less than a minute ago
+ */
+export const getWebhookSecret = (
+  parameterName: string,
+  refresh = false
+): Promise<string> => {
+  if (!parameterName) {
+    return Promise.reject(
+      new Error("Webhook secret parameter name is missing")
+    );
+  }
+  const stale =
+    refresh && Date.now() - fetchedAt[parameterName] >= MIN_REFRESH_INTERVAL_MS;
+  if (!secrets[parameterName] || stale) {
+    fetchedAt[parameterName] = Date.now();
+    secrets[parameterName] = fetchWebhookSecret(parameterName).catch((e) => {
+      // let the next invocation try again
+      delete secrets[parameterName];
+      throw e;
+    });
+  }
+  return secrets[parameterName];
+};
+
+const getWebhookAccounts = (): WebhookAccounts =>
+  JSON.parse(process.env[WEBHOOK_ACCOUNTS_ENV_VARIABLE] || "{}");
+
+/**
+ * Resolve the signing secrets of the Stripe account a webhook request was
+ * sent for. The account key is the `stripeAccountKey` query parameter of the
+ * webhook URL. It can be left out when only one account uses the function.
+ *
+ * There are two secrets while a rotated secret is being retired, the current
+ * one first. Resolves to an empty list when the account is not known to the
+ * function.
+ */
+export const resolveWebhookSecrets = async (
+  accountKey?: string,
+  refresh = false
+): Promise<string[]> => {
+  const accounts = getWebhookAccounts();
+  const accountIds = Object.keys(accounts);
+  const account = accountKey
+    ? accounts[accountKey]
+    : accountIds.length === 1
+    ? accounts[accountIds[0]]
+    : undefined;
+  if (!account) {
+    return [];
+  }
+  const resolve = (envVariableName: string) => {
+    const value = process.env[envVariableName];
+    return account.secretSource === "ssm"
+      ? getWebhookSecret(value, refresh)
+      : Promise.resolve(value);
+  };
+  const secrets = [await resolve(account.envVariableName)];
+  if (account.previousEnvVariableName) {
+    // the previous secret is deleted once the old endpoint is retired
+    secrets.push(
+      await resolve(account.previousEnvVariableName).catch(() => undefined)
+    );
+  }
+  return secrets.filter((secret) => secret);
+};
@@ -0,0 +1,342 @@
+/**
+ * JSON schema of `custom.stripe`, registered with the config schema handler
+ * of the Serverless Framework so that typos and wrong types are reported with
+ * their path. Semantic checks the schema can not express are done in
+ * ServerlessStripe.validateConfigExists.
+ */
+
+const internalIdSchema = {
+  type: "string",
+  pattern: "^[a-zA-Z][a-zA-Z0-9_]+$",
+};
+
+const metadataSchema = {
+  type: "object",
+  additionalProperties: { type: "string" },
+};
+
+const amountSchema = { type: "integer", minimum: 0 };
+
+const apiKeyReferenceSchema = {
+  anyOf: [
+    { type: "string", minLength: 1 },
+    {
+      type: "object",
+      properties: { ssm: { type: "string", minLength: 1 } },
+      required: ["ssm"],
+      additionalProperties: false,
+    },
+    {
+      type: "object",
+      properties: {
+        secretsManager: { type: "string", minLength: 1 },
+        key: { type: "string", minLength: 1 },
+      },
+      required: ["secretsManager"],
+      additionalProperties: false,
+    },
+    {
+      type: "object",
+      properties: { env: { type: "string", minLength: 1 } },
+      required: ["env"],
+      additionalProperties: false,
+    },
+  ],
+};
+
+const apiKeySchema = {
+  anyOf: [
+    apiKeyReferenceSchema,
+    {
+      type: "object",
+      properties: {
+        stages: {
+          type: "object",
+          additionalProperties: apiKeyReferenceSchema,
+        },
+        default: apiKeyReferenceSchema,
+      },
+      required: ["stages"],
+      additionalProperties: false,
+    },
+  ],
+};
+
+const modeSchema = {
+  anyOf: [
+    { enum: ["test", "live"] },
+    {
+      type: "object",
+      properties: {
+        stages: {
+          type: "object",
+          additionalProperties: { enum: ["test", "live"] },
+        },
+        default: { enum: ["test", "live"] },
+      },
+      required: ["stages"],
+      additionalProperties: false,
+    },
+  ],
+};
+
+const webhookSchema = {
+  type: "object",
+  properties: {
+    functionName: { type: "string", minLength: 1 },
+    events: {
+      type: "array",
+      minItems: 1,
+      items: { type: "string" },
+    },
+    webhookSecretEnvVariableName: internalIdSchema,
+    url: { type: "string", pattern: "^https://" },
+    secretSource: { enum: ["environment", "ssm"] },
+    connect: { type: "boolean" },
+    stripeId: { type: "string", pattern: "^we_" },
+    entitlementSummary: { type: "boolean" },
+  },
+  required: ["functionName", "events", "webhookSecretEnvVariableName"],
+  additionalProperties: false,
+};
+
+const priceSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", minLength: 1 },
+    price: amountSchema,
+    currency: { type: "string", pattern: "^[a-zA-Z]{3}$" },
+    interval: { enum: ["day", "week", "month", "year"] },
+    interval_count: { type: "integer", minimum: 1 },
+    usage_type: { enum: ["licensed", "metered"] },
+    tiers: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          up_to: { anyOf: [{ type: "integer" }, { const: "inf" }] },
+          unit_amount: amountSchema,
+          flat_amount: amountSchema,
+        },
+        required: ["up_to"],
+        additionalProperties: false,
+      },
+    },
+    tiers_mode: { enum: ["graduated", "volume"] },
+    transform_quantity: {
+      type: "object",
+      properties: {
+        divide_by: { type: "integer", minimum: 1 },
+        round: { enum: ["up", "down"] },
+      },
+      required: ["divide_by", "round"],
+      additionalProperties: false,
+    },
+    tax_behavior: { enum: ["exclusive", "inclusive", "unspecified"] },
+    lookup_key: { type: "string", minLength: 1 },
+    nickname: { type: "string" },
+    metadata: metadataSchema,
+    countryCode: { type: "string", pattern: "^[a-zA-Z]{2}$" },
+    stripeId: { type: "string", pattern: "^price_" },
+  },
+  required: ["id", "currency", "countryCode"],
+  additionalProperties: false,
+};
+
+const productSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    internal: {
+      type: "object",
+      properties: {
+        id: internalIdSchema,
+        description: { type: "string", minLength: 1 },
+      },
+      required: ["id", "description"],
+      additionalProperties: false,
+    },
+    description: { type: "string", minLength: 1 },
+    images: {
+      type: "array",
+      items: { type: "string", minLength: 1 },
+      maxItems: 8,
+    },
+    features: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { name: { type: "string", minLength: 1, maxLength: 80 } },
+        required: ["name"],
+        additionalProperties: false,
+      },
+      maxItems: 15,
+    },
+    tax_code: { type: "string", pattern: "^txcd_" },
+    unit_label: { type: "string", minLength: 1, maxLength: 12 },
+    statement_descriptor: { type: "string", minLength: 5, maxLength: 22 },
+    url: { type: "string", minLength: 1 },
+    shippable: { type: "boolean" },
+    metadata: metadataSchema,
+    default_price: { type: "string", minLength: 1 },
+    entitlements: {
+      type: "array",
+      items: { type: "string", minLength: 1 },
+    },
+    prices: { type: "array", items: priceSchema },
+    stripeId: { type: "string", pattern: "^prod_" },
+  },
+  required: ["name", "internal", "prices"],
+  additionalProperties: false,
+};
+
+const portalSchema = {
+  type: "object",
+  properties: {
+    // Stripe.BillingPortal.ConfigurationCreateParams, validated by Stripe
+    configuration: { type: "object" },
+    internalId: internalIdSchema,
+    envVariableName: internalIdSchema,
+    stripeId: { type: "string", pattern: "^bpc_" },
+  },
+  required: ["configuration", "internalId", "envVariableName"],
+  additionalProperties: false,
+};
+
+const couponSchema = {
+  type: "object",
+  properties: {
+    internalId: internalIdSchema,
+    name: { type: "string" },
+    percent_off: { type: "number", exclusiveMinimum: 0, maximum: 100 },
+    amount_off: { type: "integer", minimum: 1 },
+    currency: { type: "string", pattern: "^[a-zA-Z]{3}$" },
+    duration: { enum: ["forever", "once", "repeating"] },
+    duration_in_months: { type: "integer", minimum: 1 },
+    max_redemptions: { type: "integer", minimum: 1 },
+    redeem_by: { type: "integer" },
+    applies_to: {
+      type: "object",
+      properties: {
+        products: { type: "array", items: internalIdSchema },
+      },
+      required: ["products"],
+      additionalProperties: false,
+    },
+    metadata: metadataSchema,
+  },
+  required: ["internalId", "duration"],
+  additionalProperties: false,
+};
+
+const promotionCodeSchema = {
+  type: "object",
+  properties: {
+    internalId: internalIdSchema,
+    code: { type: "string", minLength: 1 },
+    coupon: internalIdSchema,
+    max_redemptions: { type: "integer", minimum: 1 },
+    expires_at: { type: "integer" },
+    restrictions: {
+      type: "object",
+      properties: {
+        first_time_transaction: { type: "boolean" },
+        minimum_amount: amountSchema,
+        minimum_amount_currency: {
+          type: "string",
+          pattern: "^[a-zA-Z]{3}$",
+        },
+      },
+      additionalProperties: false,
+    },
+    metadata: metadataSchema,
+  },
+  required: ["internalId", "code", "coupon"],
+  additionalProperties: false,
+};
+
+const paymentLinkSchema = {
+  type: "object",
+  properties: {
+    internalId: internalIdSchema,
+    line_items: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          price: { type: "string", minLength: 1 },
+          quantity: { type: "integer", minimum: 1 },
+          adjustable_quantity: {
+            type: "object",
+            properties: {
+              enabled: { type: "boolean" },
+              minimum: { type: "integer", minimum: 0 },
+              maximum: { type: "integer", minimum: 1, maximum: 999999 },
+            },
+            required: ["enabled"],
+            additionalProperties: false,
+          },
+        },
+        required: ["price"],
+        additionalProperties: false,
+      },
+      minItems: 1,
+      maxItems: 20,
+    },
+    allowed_countries: {
+      type: "array",
+      items: { type: "string", pattern: "^[A-Z]{2}$" },
+      minItems: 1,
+    },
+    redirect_path: { type: "string", pattern: "^/" },
+    metadata: metadataSchema,
+  },
+  required: ["internalId", "line_items"],
+  additionalProperties: false,
+};
+
+const featureSchema = {
+  type: "object",
+  properties: {
+    lookup_key: { type: "string", minLength: 1, maxLength: 80 },
+    name: { type: "string", minLength: 1, maxLength: 80 },
+    metadata: metadataSchema,
+  },
+  required: ["lookup_key", "name"],
+  additionalProperties: false,
+};
+
+export const stripeConfigSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      accountId: { type: "string", minLength: 1 },
+      apiKey: apiKeySchema,
+      mode: modeSchema,
+      allowLiveChanges: { type: "boolean" },
+      connectedAccountId: { type: "string", pattern: "^acct_" },
+      webhooks: { type: "array", items: webhookSchema },
+      products: { type: "array", items: productSchema },
+      billingPortals: { type: "array", items: portalSchema },
+      coupons: { type: "array", items: couponSchema },
+      promotionCodes: { type: "array", items: promotionCodeSchema },
+      paymentLinks: { type: "array", items: paymentLinkSchema },
+      features: { type: "array", items: featureSchema },
+    },
+    required: ["accountId", "apiKey"],
+    // entries of connected accounts can not have webhooks of their own
+    if: { not: { required: ["connectedAccountId"] } },
+    then: { required: ["webhooks"] },
+    additionalProperties: false,
+  },
+};
+
+export const stripeManifestSchema = {
+  type: "object",
+  properties: {
+    directory: { type: "string", minLength: 1 },
+  },
+  additionalProperties: false,
+};
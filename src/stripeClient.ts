@@ -0,0 +1,156 @@
+import { createHash } from "crypto";
+import { Stripe } from "stripe";
+
+/**
+ * Retries used by stripe-node itself for connection errors, 409 conflicts and
+ * 5xx responses.
+ */
+const MAX_NETWORK_RETRIES = 5;
+
+/**
+ * stripe-node does not retry plain 429 responses, so rate limited requests
+ * are retried by the http client below.
+ */
+const MAX_RATE_LIMIT_RETRIES = 5;
+const INITIAL_RATE_LIMIT_DELAY_MS = 500;
+const MAX_RATE_LIMIT_DELAY_MS = 8000;
+
+const PAGE_SIZE = 100;
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const getRateLimitDelay = (
+  response: Stripe.HttpClientResponse,
+  retry: number
+): number => {
+  const retryAfter = Number(response.getHeaders()["retry-after"]);
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_RATE_LIMIT_DELAY_MS);
+  }
+  const delay = Math.min(
+    INITIAL_RATE_LIMIT_DELAY_MS * Math.pow(2, retry),
+    MAX_RATE_LIMIT_DELAY_MS
+  );
+  // jitter keeps parallel deploys against the same account from retrying in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const createRateLimitRetryingHttpClient = (
+  httpClient: Stripe.HttpClient
+): Stripe.HttpClient => ({
+  getClientName: () => httpClient.getClientName(),
+  makeRequest: async (...args) => {
+    let response = await httpClient.makeRequest(...args);
+    for (
+      let retry = 0;
+      response.getStatusCode() === 429 && retry < MAX_RATE_LIMIT_RETRIES;
+      retry++
+    ) {
+      // drain the body so the socket is released before retrying
+      await response.toJSON().catch(() => undefined);
+      await sleep(getRateLimitDelay(response, retry));
+      // the headers, including the Idempotency-Key, are sent unchanged
+      response = await httpClient.makeRequest(...args);
+    }
+    return response;
+  },
+});
+
+/**
+ * @param stripeAccount send every request on behalf of this connected account
+ */
+export const createStripeClient = (
+  apiKey: string,
+  stripeAccount?: string
+): Stripe =>
+  new Stripe(apiKey, {
+    apiVersion: "2023-10-16",
+    stripeAccount,
+    maxNetworkRetries: MAX_NETWORK_RETRIES,
+    httpClient: createRateLimitRetryingHttpClient(
+      Stripe.createNodeHttpClient()
+    ),
+  });
+
+/**
+ * Fetch every page of a Stripe list endpoint.
+ */
+export const listAll = async <T extends { id: string }, P extends object>(
+  list: (params: P & Stripe.PaginationParams) => Promise<Stripe.ApiList<T>>,
+  params: P = {} as P
+): Promise<T[]> => {
+  const items: T[] = [];
+  let startingAfter: string | undefined;
+  let hasMore = true;
+  while (hasMore) {
+    const page = await list({
+      ...params,
+      limit: PAGE_SIZE,
+      starting_after: startingAfter,
+    });
+    items.push(...page.data);
+    hasMore = page.has_more && page.data.length > 0;
+    if (hasMore) {
+      startingAfter = page.data[page.data.length - 1].id;
+    }
+  }
+  return items;
+};
+
+/**
+ * Derive a deterministic idempotency key, so that re-running a crashed deploy
+ * sends the same key for the same create and Stripe returns the object it
+ * already created instead of creating a duplicate. The create params are part
+ * of the key because Stripe rejects a key that is reused with other params.
+ */
+export const getIdempotencyKey = (...parts: unknown[]): string =>
+  `serverless-stripe-${createHash("sha256")
+    .update(JSON.stringify(parts))
+    .digest("hex")}`;
+
+const isReplayed = (response: Stripe.Response<unknown>): boolean =>
+  response.lastResponse?.headers?.["idempotent-replayed"] === "true";
+
+/**
+ * Create an object with a deterministic idempotency key.
+ *
+ * Stripe keeps idempotency keys for 24 hours, so a replayed response may
+ * describe an object that has since been deleted or archived (e.g. a stage
+ * that was removed and deployed again). `isStale` checks the replayed object
+ * and, if it is no longer usable, the object is created again under a key
+ * that includes the stale id.
+ */
+export const createIdempotently = async <T extends { id: string }>(
+  idempotencyKey: string,
+  create: (options: Stripe.RequestOptions) => Promise<Stripe.Response<T>>,
+  isStale: (replayed: T) => Promise<boolean>
+): Promise<T> => {
+  const created = await create({ idempotencyKey });
+  if (isReplayed(created) && (await isStale(created))) {
+    return await create({
+      idempotencyKey: getIdempotencyKey(idempotencyKey, created.id),
+    });
+  }
+  return created;
+};
+
+/**
+ * Resolves to true when retrieving the object fails because it was deleted.
+ */
+export const isMissing = async (
+  retrieve: () => Promise<unknown>
+): Promise<boolean> => {
+  try {
+    const object = (await retrieve()) as { deleted?: boolean };
+    return Boolean(object && object.deleted);
+  } catch (error) {
+    if (
+      error instanceof Stripe.errors.StripeInvalidRequestError &&
+      error.code === "resource_missing"
+    ) {
+      return true;
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,81 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { Stripe } from "stripe";
+import { PlannedChange } from "./plan";
+import { StripeSnapshot } from "./rollback";
+import { ServerlessInstance } from "./types";
+
+export const SYNC_STATE_FILE = "stripe-state.json";
+
+export type AccountSyncState = {
+  accountId: string;
+  connectedAccountId?: string;
+  // what packaging created, updated and marked for deletion or archival
+  changes: PlannedChange[];
+  // the objects the config resolved to, printed in the deployment summary
+  products: { product: Stripe.Product; prices: Stripe.Price[] }[];
+  coupons: Stripe.Coupon[];
+  promotionCodes: Stripe.PromotionCode[];
+  // undefined in states written before payment links were supported
+  paymentLinks?: Stripe.PaymentLink[];
+  // the changed objects as they were before, for rolling the deploy back
+  snapshots: StripeSnapshot[];
+};
+
+/**
+ * What packaging did in Stripe, read after deploy when the package was
+ * created by another process, e.g. `serverless deploy --package` in CI
+ */
+export type SyncState = {
+  service: string;
+  stage: string;
+  region: string;
+  createdAt: string;
+  // a package created with --stripe-dry-run, which must not be deployed
+  dryRun?: boolean;
+  // set once the Stripe changes of the package have been rolled back
+  rolledBack?: boolean;
+  accounts: AccountSyncState[];
+};
+
+/**
+ * The directory the artifacts are packaged to, which is where the
+ * framework looks for them on `deploy --package`
+ */
+export const getPackagePath = (serverless: ServerlessInstance): string =>
+  serverless.processedInput.options.package ??
+  serverless.service.package?.path ??
+  join(serverless.serviceDir, ".serverless");
+
+export const writeSyncState = (packagePath: string, state: SyncState) => {
+  mkdirSync(packagePath, { recursive: true });
+  writeFileSync(
+    join(packagePath, SYNC_STATE_FILE),
+    `${JSON.stringify(state, null, 2)}\n`
+  );
+};
+
+/**
+ * @returns undefined when the package has no sync state, e.g. when it was
+ * created with an older version of the plugin
+ */
+export const readSyncState = (packagePath: string): SyncState | undefined => {
+  const statePath = join(packagePath, SYNC_STATE_FILE);
+  if (!existsSync(statePath)) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(statePath, "utf8"));
+};
+
+/**
+ * Whether packaging marked the object for deletion or archival
+ */
+export const isMarkedInSyncState = (
+  state: AccountSyncState,
+  stripeId: string
+): boolean =>
+  state.changes.some(
+    (change) =>
+      change.stripeId === stripeId &&
+      (change.action === "delete" || change.action === "archive")
+  );
@@ -0,0 +1,110 @@
+import { randomBytes } from "crypto";
+import { readFileSync } from "fs";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { Stripe } from "stripe";
+import { getEventFixture } from "./eventFixtures";
+import { WebhookRequest, WebhookResponse } from "./runtime/webhookHandler";
+
+// used when the function has no secret of its own, e.g. before it is deployed
+export const LOCAL_WEBHOOK_SECRET = "whsec_serverless_stripe_local";
+
+const signer = new Stripe("signature-generation-only", {
+  apiVersion: "2023-10-16",
+});
+
+/**
+ * The object of the event from a JSON file, which may hold a whole event or
+ * only its `data.object`, or from the bundled fixtures
+ */
+export const getEventObject = (type: string, fixturePath?: string): object => {
+  if (!fixturePath) {
+    const fixture = getEventFixture(type);
+    if (!fixture) {
+      throw new Error(
+        `No bundled fixture for ${type}, give the event object with --fixture <path>`
+      );
+    }
+    return fixture;
+  }
+  const json = JSON.parse(readFileSync(fixturePath, "utf8"));
+  if (json.object !== "event") {
+    return json;
+  }
+  if (json.type !== type) {
+    throw new Error(`${fixturePath} is a ${json.type} event, not ${type}`);
+  }
+  return json.data.object;
+};
+
+export const buildEvent = (
+  type: string,
+  object: object,
+  connectedAccountId?: string
+): object => ({
+  id: `evt_local_${randomBytes(12).toString("hex")}`,
+  object: "event",
+  ...(connectedAccountId ? { account: connectedAccountId } : {}),
+  api_version: "2023-10-16",
+  created: Math.floor(Date.now() / 1000),
+  data: { object },
+  livemode: false,
+  pending_webhooks: 1,
+  request: { id: null, idempotency_key: null },
+  type,
+});
+
+export const signPayload = (payload: string, secret: string): string =>
+  signer.webhooks.generateTestHeaderString({ payload, secret });
+
+/**
+ * The request as API Gateway passes it to the function
+ */
+export const getWebhookRequest = (
+  payload: string,
+  signature: string,
+  accountKey: string
+): WebhookRequest => ({
+  body: payload,
+  isBase64Encoded: false,
+  headers: {
+    "Content-Type": "application/json",
+    "Stripe-Signature": signature,
+  },
+  queryStringParameters: { stripeAccountKey: accountKey },
+});
+
+/**
+ * POST the event to a running function, e.g. on serverless-offline
+ */
+export const postWebhook = (
+  url: string,
+  payload: string,
+  signature: string,
+  accountKey: string
+): Promise<WebhookResponse> => {
+  const webhookUrl = new URL(url);
+  webhookUrl.searchParams.set("stripeAccountKey", accountKey);
+  const request = webhookUrl.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      webhookUrl,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(payload),
+          "Stripe-Signature": signature,
+        },
+      },
+      (res) => {
+        let body = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () => resolve({ statusCode: res.statusCode, body }));
+      }
+    );
+    req.on("error", reject);
+    req.end(payload);
+  });
+};
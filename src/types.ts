@@ -5,14 +5,43 @@ export interface WebhookConfig {
   functionName: string;
   events: [Stripe.Event.Type, ...Stripe.Event.Type[]];
   webhookSecretEnvVariableName: string;
+  // overrides the URL resolved from the events of the function
+  url?: string;
+  // "ssm" injects the name of the SSM parameter holding the secret instead of
+  // the secret itself, see getWebhookSecret in serverless-stripe/runtime
+  secretSource?: "environment" | "ssm";
+  // receive the events of connected accounts, can not be changed without
+  // replacing the endpoint
+  connect?: boolean;
+  // endpoint adopted by `serverless stripe import`, matched by URL if left out
+  stripeId?: string;
+  // adds entitlements.active_entitlement_summary.updated to events
+  entitlementSummary?: boolean;
 }
 
 export type StripePriceConfig = {
   id: string;
-  price: number;
+  // unit amount in the smallest currency unit, not used with tiers
+  price?: number;
   currency: string;
-  interval: "month" | "year";
+  // leave out for one-time prices
+  interval?: Stripe.PriceCreateParams.Recurring.Interval;
+  interval_count?: number;
+  usage_type?: Stripe.PriceCreateParams.Recurring.UsageType;
+  tiers?: Pick<
+    Stripe.PriceCreateParams.Tier,
+    "up_to" | "unit_amount" | "flat_amount"
+  >[];
+  tiers_mode?: Stripe.PriceCreateParams.TiersMode;
+  transform_quantity?: Stripe.PriceCreateParams.TransformQuantity;
+  tax_behavior?: Stripe.PriceCreateParams.TaxBehavior;
+  lookup_key?: string;
+  nickname?: string;
+  metadata?: { [key: string]: string };
   countryCode: string;
+  // price adopted by `serverless stripe import`, matched by its attributes
+  // if left out
+  stripeId?: string;
 }
 
 export interface StripeProductConfig {
@@ -21,38 +50,156 @@ export interface StripeProductConfig {
     id: string;
     description: string;
   },
+  // sent to Stripe, defaults to internal.description
+  description?: string;
+  images?: string[];
+  // marketing features listed on pricing tables
+  features?: { name: string }[];
+  tax_code?: string;
+  unit_label?: string;
+  statement_descriptor?: string;
+  url?: string;
+  shippable?: boolean;
+  metadata?: { [key: string]: string };
+  // id of one of the prices of the product
+  default_price?: string;
+  // lookup_keys of the features customers subscribed to the product get
+  entitlements?: string[];
   prices: StripePriceConfig[];
+  // product adopted by `serverless stripe import`, matched by name if left out
+  stripeId?: string;
 }
 
 export type StripePortalConfig = {
   configuration: Stripe.BillingPortal.ConfigurationCreateParams;
   internalId: string;
   envVariableName: string;
+  // configuration adopted by `serverless stripe import`, matched by
+  // default_return_url if left out
+  stripeId?: string;
 }
 
+export type StripeCouponConfig = {
+  internalId: string;
+  name?: string;
+  percent_off?: number;
+  amount_off?: number;
+  currency?: string;
+  duration: Stripe.CouponCreateParams.Duration;
+  duration_in_months?: number;
+  max_redemptions?: number;
+  redeem_by?: number;
+  applies_to?: {
+    // product internal.ids
+    products: string[];
+  };
+  metadata?: { [key: string]: string };
+}
+
+export type StripePromotionCodeConfig = {
+  internalId: string;
+  code: string;
+  // internalId of the coupon
+  coupon: string;
+  max_redemptions?: number;
+  expires_at?: number;
+  restrictions?: Pick<
+    Stripe.PromotionCodeCreateParams.Restrictions,
+    "first_time_transaction" | "minimum_amount" | "minimum_amount_currency"
+  >;
+  metadata?: { [key: string]: string };
+}
+
+export type StripePaymentLinkConfig = {
+  // the link id is set to this environment variable and its url to
+  // <internalId>Url
+  internalId: string;
+  line_items: {
+    // id of a price config
+    price: string;
+    quantity?: number;
+    adjustable_quantity?: Stripe.PaymentLinkCreateParams.LineItem.AdjustableQuantity;
+  }[];
+  // countries shipping addresses are collected for
+  allowed_countries?: string[];
+  // path on customDomain the customer is redirected to after paying,
+  // Stripe's confirmation page is shown if left out
+  redirect_path?: string;
+  metadata?: { [key: string]: string };
+}
+
+export type StripeFeatureConfig = {
+  // identifies the feature in Stripe and in the active entitlements of
+  // customers, unique per account
+  lookup_key: string;
+  name: string;
+  metadata?: { [key: string]: string };
+}
+
+// the key itself, or where to read it from
+export type ApiKeyReference =
+  | string
+  | { ssm: string }
+  // key picks a value of a secret stored as JSON
+  | { secretsManager: string; key?: string }
+  | { env: string };
+
+export type ApiKeyConfig =
+  | ApiKeyReference
+  | {
+      stages: { [stage: string]: ApiKeyReference };
+      default?: ApiKeyReference;
+    };
+
+export type StripeMode = "test" | "live";
+
+export type StripeModeConfig =
+  | StripeMode
+  | {
+      stages: { [stage: string]: StripeMode };
+      default?: StripeMode;
+    };
+
 type Value<T> = T[keyof T];
 export type WebhookFunction = Value<AWS["functions"]>;
 
 export type  SingleStripeConfig  = {
   accountId: string;
-  apiKey: string;
-  webhooks: WebhookConfig[];
+  apiKey: ApiKeyConfig;
+  // the mode the key of each stage must be in
+  mode?: StripeModeConfig;
+  // change live mode objects without --stripe-confirm-live
+  allowLiveChanges?: boolean;
+  // manage the catalog of this entry on a connected account of accountId,
+  // through the Stripe-Account header
+  connectedAccountId?: string;
+  // optional in entries of connected accounts
+  webhooks?: WebhookConfig[];
   products: StripeProductConfig[];
   billingPortals: StripePortalConfig[];
+  coupons: StripeCouponConfig[];
+  promotionCodes: StripePromotionCodeConfig[];
+  paymentLinks?: StripePaymentLinkConfig[];
+  features?: StripeFeatureConfig[];
 }
 export type  StripeConfig  = SingleStripeConfig[]
 
 
+export interface StripeManifestConfig {
+  // relative to the service directory, defaults to stripe-manifest
+  directory?: string;
+}
+
 export interface Tags {
   [key: string]: string;
 }
 
 export interface CustomDomain {
   domainName: string;
-  basePath: string;
+  basePath?: string;
 }
 
-type Provider = AWS["functions"] & {
+type Provider = AWS["provider"] & {
   custom:{
     customDomain?: CustomDomain;
     stripe?: StripeConfig;
@@ -67,13 +214,20 @@ export interface ServerlessInstance {
     custom: {
       customDomain?: CustomDomain;
       stripe?: StripeConfig;
+      stripeManifest?: StripeManifestConfig;
+    };
+    package?: {
+      patterns?: string[];
+      path?: string;
     };
   };
+  serviceDir: string;
   providers: {
     aws: {
       getCredentials();
     };
   };
+  getProvider(name: "aws"): AwsProvider;
   processedInput: {
     commands: string[];
     options: ServerlessOptions;
@@ -81,13 +235,49 @@ export interface ServerlessInstance {
   cli: {
     log(str: string, entity?: string);
   };
+  pluginManager: {
+    spawn(command: string): Promise<void>;
+  };
 
   addServiceOutputSection?(name: string, data: string[]);
+  configSchemaHandler?: {
+    defineCustomProperties(schema: object): void;
+  };
+}
+
+export interface AwsProvider {
+  // T is the response of the AWS SDK method
+  request<T>(service: string, method: string, params: object): Promise<T>;
+  naming: {
+    getStackName(): string;
+    getLambdaFunctionUrlOutputLogicalId(functionName: string): string;
+  };
 }
 
 export interface ServerlessOptions {
   stage: string;
   region?: string;
+  "stripe-dry-run"?: boolean;
+  function?: string;
+  account?: string;
+  "webhook-secret"?: string | string[];
+  yes?: boolean;
+  json?: boolean;
+  "stripe-confirm-live"?: boolean;
+  event?: string;
+  fixture?: string;
+  url?: string;
+  secret?: string;
+  // the event of invoke local
+  data?: string;
+  since?: string;
+  type?: string | string[];
+  rate?: string;
+  restart?: boolean;
+  "dry-run"?: boolean;
+  "proration-behavior"?: string;
+  "batch-size"?: string;
+  package?: string;
 }
 
 interface ServerlessProgress {
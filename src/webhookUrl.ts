@@ -0,0 +1,102 @@
+import { CustomDomain, WebhookConfig, WebhookFunction } from "./types";
+
+export type StackOutputs = { [outputKey: string]: string };
+
+type PostEvent = {
+  type: "http" | "httpApi";
+  path: string;
+};
+
+const POST_METHODS = ["post", "any", "*"];
+
+const parseEvent = (
+  event: string | { method?: string; path?: string }
+): { method?: string; path?: string } => {
+  if (typeof event === "string") {
+    // "POST /path" or "*"
+    const [method, path] = event.trim().split(/\s+/);
+    return { method, path };
+  }
+  return event;
+};
+
+const normalizePath = (path?: string) => `/${(path || "").replace(/^\//, "")}`;
+
+const findPostEvent = (
+  webhookFunction: WebhookFunction
+): PostEvent | undefined => {
+  for (const event of webhookFunction.events || []) {
+    const post =
+      "http" in event
+        ? { type: "http" as const, config: event.http }
+        : "httpApi" in event
+        ? { type: "httpApi" as const, config: event.httpApi }
+        : null;
+    if (!post) {
+      continue;
+    }
+    const { method, path } = parseEvent(post.config);
+    if (method && POST_METHODS.indexOf(method.toLowerCase()) !== -1) {
+      return { type: post.type, path: normalizePath(path) };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Resolve the URL Stripe should call for a webhook function, in order of
+ * preference: an explicit url, the custom domain of serverless-domain-manager,
+ * the function URL and the default API Gateway URL. The last two are only
+ * known from the outputs of a deployed stack.
+ *
+ * @returns the URL, or undefined when it depends on stack outputs that are
+ * not available yet
+ */
+export const resolveWebhookUrl = (params: {
+  webhookConfig: WebhookConfig;
+  webhookFunction: WebhookFunction;
+  customDomain?: CustomDomain;
+  stackOutputs?: StackOutputs;
+  functionUrlOutputKey: string;
+}): string | undefined => {
+  const { webhookConfig, webhookFunction, customDomain, stackOutputs } = params;
+  if (webhookConfig.url) {
+    return webhookConfig.url;
+  }
+
+  const postEvent = findPostEvent(webhookFunction);
+  if (postEvent && customDomain) {
+    const basePath = customDomain.basePath
+      ? normalizePath(customDomain.basePath)
+      : "";
+    return `https://${customDomain.domainName}${basePath}${postEvent.path}`;
+  }
+
+  if (!postEvent && !webhookFunction.url) {
+    throw new Error(
+      `Function ${webhookConfig.functionName} does not have an HTTP POST event or a function URL`
+    );
+  }
+  if (!stackOutputs) {
+    return undefined;
+  }
+  if (postEvent) {
+    const outputKey =
+      postEvent.type === "http" ? "ServiceEndpoint" : "HttpApiUrl";
+    const endpoint = stackOutputs[outputKey];
+    return endpoint
+      ? `${endpoint.replace(/\/$/, "")}${postEvent.path}`
+      : undefined;
+  }
+  return stackOutputs[params.functionUrlOutputKey];
+};
+
+/**
+ * Whether the URL of a webhook can only be resolved from stack outputs
+ */
+export const isUrlFromStackOutputs = (
+  webhookConfig: WebhookConfig,
+  webhookFunction: WebhookFunction,
+  customDomain?: CustomDomain
+): boolean =>
+  !webhookConfig.url && !(customDomain && findPostEvent(webhookFunction));